@@ -0,0 +1,137 @@
+import * as crypto from "crypto";
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { Bag } from "@paperbits/common";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { JsDomHtmlDocumentProvider } from "@paperbits/common/publishing";
+import { ISiteService } from "@paperbits/common/sites";
+import { AppInsightsHtmlPagePublisherPlugin, AppInsightsScriptPublisher, AppInsightsSettings } from "../src/publishing";
+import { InMemoryAzureBlobStorage } from "../src/persistence/azureBlobStorage.inMemory";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+
+const decoder = new TextDecoder();
+
+/**
+ * Records events instead of sending them anywhere.
+ */
+class RecordingLogger extends ConsoleLogger {
+    public readonly events: { name: string, properties: Bag<string> }[] = [];
+
+    public override async trackEvent(name: string, properties?: Bag<string>): Promise<void> {
+        this.events.push({ name: name, properties: properties });
+    }
+}
+
+describe("App Insights HTML page publisher plugin", async () => {
+    let outputBlobStorage: InMemoryAzureBlobStorage;
+    let scriptPublisher: AppInsightsScriptPublisher;
+    let logger: RecordingLogger;
+
+    const createPlugin = (appInsightsSettings: AppInsightsSettings) => {
+        const siteService = <ISiteService><unknown>{
+            getSettings: async () => ({ integration: { appInsights: appInsightsSettings } })
+        };
+
+        logger = new RecordingLogger();
+        outputBlobStorage = new InMemoryAzureBlobStorage(new StaticSettingsProvider({}), new ConsoleLogger());
+        scriptPublisher = new AppInsightsScriptPublisher(siteService, outputBlobStorage, logger);
+
+        return new AppInsightsHtmlPagePublisherPlugin(siteService);
+    };
+
+    const createDocument = () => new JsDomHtmlDocumentProvider().createDocument();
+
+    it("Skips pages without connection string or instrumentation key", async () => {
+        const document = createDocument();
+        await createPlugin({ sdkUrl: "/scripts/ai.2.min.js" }).apply(document);
+
+        expect(document.head.querySelector("script")).to.be.null;
+    });
+
+    it("Inlines bootstrapper script with configuration", async () => {
+        const document = createDocument();
+        const window = <any>document.defaultView;
+        const connectionString = `InstrumentationKey=00000000-0000-0000-0000-000000000001;IngestionEndpoint=https://contoso.com/"</script><script>alert(1)</script>`;
+
+        await createPlugin({
+            connectionString: connectionString,
+            instrumentationKey: "00000000-0000-0000-0000-000000000002",
+            disableExceptionTracking: true,
+            samplingPercentage: 25
+        }).apply(document);
+
+        const scriptElement = document.head.querySelector("script");
+
+        expect(document.head.querySelectorAll("script")).to.have.length(1);
+        expect(scriptElement.hasAttribute("src")).to.be.false;
+        expect(scriptElement.hasAttribute("nonce")).to.be.false;
+        expect(document.documentElement.outerHTML).not.contains("<script>alert(1)</script>");
+
+        await scriptPublisher.publish();
+
+        expect(await outputBlobStorage.listBlobs()).to.be.empty;
+        expect(logger.events[0].properties.scriptHash).equals(`sha256-${crypto.createHash("sha256").update(scriptElement.textContent).digest("base64")}`);
+
+        window.eval(scriptElement.textContent);
+
+        expect(window.appInsights.config).to.deep.equal({
+            connectionString: connectionString,
+            disableExceptionTracking: true,
+            samplingPercentage: 25
+        });
+        expect(window.appInsights.autoExceptionInstrumented).to.be.undefined;
+    });
+
+    it("Loads self-hosted SDK with cross origin and load delay", async () => {
+        const document = createDocument();
+        const window = <any>document.defaultView;
+
+        await createPlugin({
+            instrumentationKey: "00000000-0000-0000-0000-000000000001",
+            sdkUrl: "https://cdn.contoso.com/scripts/ai.2.min.js",
+            crossOrigin: "anonymous",
+            loadDelayInMs: -1
+        }).apply(document);
+
+        window.eval(document.head.querySelector("script").textContent);
+
+        const [, sdkScriptElement] = Array.from(document.head.querySelectorAll("script"));
+
+        expect(window.appInsights.config).to.include({ instrumentationKey: "00000000-0000-0000-0000-000000000001", autoExceptionInstrumented: true });
+        expect(sdkScriptElement.getAttribute("src")).equals("https://cdn.contoso.com/scripts/ai.2.min.js");
+        expect(sdkScriptElement.getAttribute("crossorigin")).equals("anonymous");
+    });
+
+    it("Publishes bootstrapper script once as external file with nonce and integrity hash", async () => {
+        const plugin = createPlugin({
+            connectionString: "InstrumentationKey=00000000-0000-0000-0000-000000000001",
+            scriptPermalink: "/scripts/app-insights.js",
+            scriptNonce: "r4nd0m"
+        });
+
+        const homePage = createDocument();
+        const aboutPage = createDocument();
+
+        await scriptPublisher.publish();
+        await plugin.apply(homePage);
+        await plugin.apply(aboutPage);
+
+        const script = await outputBlobStorage.downloadBlob("/scripts/app-insights.js");
+        const properties = await outputBlobStorage.getBlobProperties("/scripts/app-insights.js");
+        const integrityHash = crypto.createHash("sha256").update(script).digest("base64");
+
+        expect(decoder.decode(script)).contains(`"cfg":{"connectionString":"InstrumentationKey=00000000-0000-0000-0000-000000000001"}}`);
+        expect(properties.contentType).equals("application/javascript");
+        expect(properties.etag).equals(`"0x1"`);
+        expect(logger.events[0].properties.scriptHash).equals(`sha256-${integrityHash}`);
+
+        for (const document of [homePage, aboutPage]) {
+            const scriptElement = document.head.querySelector("script");
+
+            expect(scriptElement.getAttribute("src")).equals("/scripts/app-insights.js");
+            expect(scriptElement.getAttribute("nonce")).equals("r4nd0m");
+            expect(scriptElement.getAttribute("integrity")).equals(`sha256-${integrityHash}`);
+            expect(scriptElement.textContent).to.be.empty;
+        }
+    });
+});
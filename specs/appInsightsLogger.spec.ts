@@ -0,0 +1,223 @@
+import { expect } from "chai";
+import { describe, it } from "mocha";
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { IApplicationInsights, IConfig, IConfiguration, ITelemetryItem } from "@microsoft/applicationinsights-web";
+import { LogService } from "../src/logging/appInsightsLogger";
+import { AppInsightsLoggerSettings } from "../src/logging/appInsightsLoggerSettings";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+
+/**
+ * Records telemetry instead of sending it to App Insights.
+ */
+class StubAppInsightsClient {
+    public readonly calls: { method: string, args: any[] }[] = [];
+    public readonly initializers: ((item: ITelemetryItem) => boolean | void)[] = [];
+
+    constructor(public readonly config: IConfiguration & IConfig) { }
+
+    public addTelemetryInitializer(initializer: (item: ITelemetryItem) => boolean | void): void {
+        this.initializers.push(initializer);
+    }
+
+    public trackEvent(...args: any[]): void {
+        this.calls.push({ method: "trackEvent", args: args });
+    }
+
+    public trackException(...args: any[]): void {
+        this.calls.push({ method: "trackException", args: args });
+    }
+
+    public trackPageView(...args: any[]): void {
+        this.calls.push({ method: "trackPageView", args: args });
+    }
+
+    public trackMetric(...args: any[]): void {
+        this.calls.push({ method: "trackMetric", args: args });
+    }
+
+    public trackDependencyData(...args: any[]): void {
+        this.calls.push({ method: "trackDependencyData", args: args });
+    }
+}
+
+class StubbedLogService extends LogService {
+    public client: StubAppInsightsClient;
+
+    constructor(settings: AppInsightsLoggerSettings, private readonly hostname: string = "contoso.azurewebsites.net") {
+        super(new StaticSettingsProvider({ appInsights: settings }));
+    }
+
+    protected override createClient(config: IConfiguration & IConfig): IApplicationInsights {
+        this.client = new StubAppInsightsClient(config);
+        return <any>this.client;
+    }
+
+    protected override getHostname(): string {
+        return this.hostname;
+    }
+}
+
+const connectionString = "InstrumentationKey=00000000-0000-0000-0000-000000000000;IngestionEndpoint=https://westeurope-1.in.applicationinsights.azure.com/";
+
+describe("App Insights logger", async () => {
+    it("Configures client with connection string, ingestion endpoint and sampling", async () => {
+        const logService = new StubbedLogService({
+            connectionString: connectionString,
+            instrumentationKey: "ignored",
+            ingestionEndpoint: "https://dc.applicationinsights.azure.us/",
+            samplingPercentage: 25
+        });
+
+        await logService.trackEvent("Page saved", { pageKey: "pages/home" });
+
+        expect(logService.client.config).to.deep.equal({
+            connectionString: connectionString,
+            instrumentationKey: undefined,
+            samplingPercentage: 25,
+            endpointUrl: "https://dc.applicationinsights.azure.us/v2/track"
+        });
+
+        expect(logService.client.calls).to.deep.equal([
+            { method: "trackEvent", args: [{ name: "Session started" }, undefined] },
+            { method: "trackEvent", args: [{ name: "Page saved" }, { pageKey: "pages/home" }] }
+        ]);
+    });
+
+    it("Collects telemetry only in allowed environments", async () => {
+        const defaultHosts = new StubbedLogService({ connectionString: connectionString }, "www.contoso.com");
+        const customDomain = new StubbedLogService({ connectionString: connectionString, allowedHosts: ["*.contoso.com", "localhost"] }, "WWW.Contoso.com");
+        const anyHost = new StubbedLogService({ connectionString: connectionString, allowedHosts: ["*"] }, "contoso.cn");
+        const otherHost = new StubbedLogService({ connectionString: connectionString, allowedHosts: ["localhost"] }, "contoso.com");
+        const noConnection = new StubbedLogService({});
+
+        for (const logService of [defaultHosts, customDomain, anyHost, otherHost, noConnection]) {
+            await logService.trackView("home");
+        }
+
+        expect(defaultHosts.client).to.be.undefined;
+        expect(customDomain.client.calls.map(call => call.method)).to.deep.equal(["trackEvent", "trackPageView"]);
+        expect(anyHost.client).to.exist;
+        expect(otherHost.client).to.be.undefined;
+        expect(noConnection.client).to.be.undefined;
+    });
+
+    it("Tracks session without unhandled rejection when settings or location are unavailable", async () => {
+        const unhandledRejections: unknown[] = [];
+        const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+        const warnings: string[] = [];
+        const warn = console.warn;
+
+        process.on("unhandledRejection", onUnhandledRejection);
+        console.warn = (message: string) => warnings.push(message);
+
+        try {
+            new LogService(<ISettingsProvider><unknown>{ getSetting: () => Promise.reject(new Error("Settings unavailable")) });
+            new LogService(new StaticSettingsProvider({ appInsights: { connectionString: connectionString } }));
+
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        finally {
+            process.off("unhandledRejection", onUnhandledRejection);
+            console.warn = warn;
+        }
+
+        expect(unhandledRejections).to.be.empty;
+        expect(warnings).to.include("Unable to track session. Settings unavailable");
+        expect(warnings).to.include("AppInsights telemetry isn't collected in current environment ().");
+    });
+
+    it("Reports cloud role name and instance", async () => {
+        const logService = new StubbedLogService({ instrumentationKey: "key", cloudRoleName: "paperbits-website", cloudRoleInstance: "westeurope-1" });
+        const error = new Error("Failure");
+
+        await logService.trackError(error, { handledAt: "publishing" });
+
+        const item: ITelemetryItem = { name: "Exception", tags: <any>{ "ai.device.type": "Browser" } };
+        logService.client.initializers.forEach(initializer => initializer(item));
+
+        expect(logService.client.config.instrumentationKey).equals("key");
+        expect(logService.client.calls[1]).to.deep.equal({ method: "trackException", args: [{ exception: error, properties: { handledAt: "publishing" } }] });
+        expect(item.tags).to.deep.equal({ "ai.device.type": "Browser", "ai.cloud.role": "paperbits-website", "ai.cloud.roleInstance": "westeurope-1" });
+    });
+
+    it("Tracks metrics with typed values", async () => {
+        const logService = new StubbedLogService({ connectionString: connectionString });
+
+        await logService.trackMetric("Publishing duration", { value: 1250 });
+        await logService.trackMetric("Page size", { value: "10.5", count: "4", min: "2", max: 20, site: "contoso", extra: { a: 1 }, empty: null });
+
+        expect(logService.client.calls.slice(1)).to.deep.equal([
+            {
+                method: "trackMetric",
+                args: [{ name: "Publishing duration", average: 1250, sampleCount: undefined, min: undefined, max: undefined }, {}]
+            },
+            {
+                method: "trackMetric",
+                args: [{ name: "Page size", average: 10.5, sampleCount: 4, min: 2, max: 20 }, { site: "contoso", extra: `{"a":1}` }]
+            }
+        ]);
+    });
+
+    it("Skips metrics without numeric value", async () => {
+        const logService = new StubbedLogService({ connectionString: connectionString });
+
+        await logService.trackMetric("No value");
+        await logService.trackMetric("Not a number", { value: "n/a" });
+        await logService.trackMetric("Infinite", { value: "Infinity" });
+        await logService.trackMetric("Blank", { value: " " });
+        await logService.trackMetric("Malformed", <any>"42");
+
+        expect(logService.client.calls.map(call => call.method)).to.deep.equal(["trackEvent"]);
+    });
+
+    it("Tracks dependencies with typed details", async () => {
+        const logService = new StubbedLogService({ connectionString: connectionString });
+        const circular = {};
+        circular["self"] = circular;
+
+        await logService.trackDependency("GET /pages", { target: "api.contoso.com", duration: "120.5", resultCode: "404", type: "HTTP", data: "GET https://api.contoso.com/pages", site: "contoso" });
+        await logService.trackDependency("Upload blob", { duration: 35, success: "FALSE", resultCode: 201, requestId: 7, details: circular });
+        await logService.trackDependency("Malformed", <any>["target"]);
+
+        const dependencies = logService.client.calls.slice(1).map(call => call.args[0]);
+
+        expect(dependencies[0].id).to.match(/^[0-9a-f]{16}$/);
+        expect(dependencies[1].id).not.equals(dependencies[0].id);
+
+        expect(dependencies.map(dependency => ({ ...dependency, id: undefined }))).to.deep.equal([
+            {
+                id: undefined,
+                name: "GET /pages",
+                target: "api.contoso.com",
+                duration: 120.5,
+                success: false,
+                responseCode: 404,
+                type: "HTTP",
+                data: "GET https://api.contoso.com/pages",
+                properties: { site: "contoso" }
+            },
+            {
+                id: undefined,
+                name: "Upload blob",
+                target: undefined,
+                duration: 35,
+                success: false,
+                responseCode: 201,
+                type: undefined,
+                data: undefined,
+                properties: { requestId: "7", details: "[object Object]" }
+            },
+            {
+                id: undefined,
+                name: "Malformed",
+                target: undefined,
+                duration: undefined,
+                success: true,
+                responseCode: 0,
+                type: undefined,
+                data: undefined,
+                properties: {}
+            }
+        ]);
+    });
+});
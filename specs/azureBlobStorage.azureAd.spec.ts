@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { describe, it, before, after } from "mocha";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { ServerAzureBlobStorage } from "../src/persistence/azureBlobStorage.server";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+import { AzuriteHost } from "./azuriteHost";
+import { FakeTokenCredential } from "./fakeTokenCredential";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe("Azure Blob Storage - Azure AD", async () => {
+    const logger = new ConsoleLogger();
+    const azurite = new AzuriteHost(true);
+    const containerName = "content";
+    const tokenCredential = new FakeTokenCredential();
+    const rejectUnauthorized = process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+    let storageClient: ServerAzureBlobStorage;
+
+    before(async () => {
+        process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0"; // Azurite uses self-signed certificate
+        await azurite.start();
+
+        storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageAccountUrl: azurite.blobEndpoint,
+            blobStorageContainer: containerName,
+            blobStorageTokenCredential: tokenCredential
+        }), logger);
+
+        await storageClient.createContainer();
+    });
+
+    after(async () => {
+        await azurite.stop();
+
+        if (rejectUnauthorized === undefined) {
+            delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+        }
+        else {
+            process.env.NODE_TLS_REJECT_UNAUTHORIZED = rejectUnauthorized;
+        }
+    });
+
+    it("Authenticates with injected token credential", async () => {
+        await storageClient.uploadBlob("pages/home.json", encoder.encode("{}"));
+
+        expect(await storageClient.listBlobs("pages")).to.deep.equal(["pages/home.json"]);
+        expect(decoder.decode(await storageClient.downloadBlob("pages/home.json"))).equals("{}");
+        expect(tokenCredential.requestedScopes).to.include("https://storage.azure.com/.default");
+    });
+
+    it("Deletes blob folder in batches", async () => {
+        for (const key of ["folder/a.txt", "folder/b.txt", "folder/c.txt"]) {
+            await storageClient.uploadBlob(key, encoder.encode(key));
+        }
+
+        const report = await storageClient.deleteBlobFolder("folder");
+
+        expect(report.deleted).to.have.members(["folder/a.txt", "folder/b.txt", "folder/c.txt"]);
+        expect(report.failed).to.be.empty;
+        expect(await storageClient.listBlobs("folder")).to.be.empty;
+    });
+
+    it("Generates user delegation SAS", async () => {
+        await storageClient.uploadBlob("reports/report.txt", encoder.encode("Report"));
+
+        const downloadUrl = new URL(await storageClient.getDownloadUrl("reports/report.txt"));
+        expect(downloadUrl.searchParams.get("skoid")).equals("11111111-1111-1111-1111-111111111111");
+
+        const response = await fetch(downloadUrl);
+        expect(await response.text()).equals("Report");
+    });
+
+    it("Refuses stored access policy with user delegation SAS", async () => {
+        let error: Error;
+
+        try {
+            await storageClient.getDownloadUrl("reports/report.txt", { identifier: "readers" });
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).equals(`Stored access policy "readers" cannot be used with user delegation SAS.`);
+    });
+
+    it("Requires service principal settings for client secret credential", async () => {
+        const misconfiguredClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageAccountUrl: azurite.blobEndpoint,
+            blobStorageContainer: containerName,
+            blobStorageCredentialType: "clientSecret",
+            blobStorageClientId: "client-id"
+        }), logger);
+
+        let error: Error;
+
+        try {
+            await misconfiguredClient.listBlobs();
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).to.contain(`"blobStorageClientSecret"`);
+    });
+});
@@ -0,0 +1,171 @@
+import * as crypto from "crypto";
+import { expect } from "chai";
+import { describe, it, before, after } from "mocha";
+import { Readable } from "stream";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { ServerAzureBlobStorage } from "../src/persistence/azureBlobStorage.server";
+import { BlobEncryptionKeyError } from "../src/persistence/blobEncryptionKeyError";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+import { AzuriteHost } from "./azuriteHost";
+import { TransientFailureProxy } from "./transientFailureProxy";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
+        stream.on("error", reject);
+    });
+}
+
+/**
+ * Customer-provided keys are accepted by storage client over HTTPS only, so the specs run against secure Azurite.
+ * Azurite doesn't encrypt content, so the specs check encryption headers of requests passing through proxy.
+ */
+describe("Azure Blob Storage - encryption", async () => {
+    const logger = new ConsoleLogger();
+    const azurite = new AzuriteHost(true, true);
+    const proxy = new TransientFailureProxy();
+    const containerName = "content";
+    const encryptionKey = Buffer.alloc(32, 7).toString("base64");
+    const encryptionKeySha256 = crypto.createHash("sha256").update(Buffer.alloc(32, 7)).digest("base64");
+    const rejectUnauthorized = process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+    let connectionString: string;
+
+    before(async () => {
+        process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0"; // Azurite uses self-signed certificate
+        await azurite.start();
+        await proxy.start(azurite.blobEndpoint, azurite.certificate);
+        await azurite.getServiceClient().getContainerClient(containerName).createIfNotExists();
+
+        connectionString = azurite.connectionString.replace(azurite.blobEndpoint, proxy.blobEndpoint);
+    });
+
+    after(async () => {
+        await proxy.stop();
+        await azurite.stop();
+
+        if (rejectUnauthorized === undefined) {
+            delete process.env.NODE_TLS_REJECT_UNAUTHORIZED;
+        }
+        else {
+            process.env.NODE_TLS_REJECT_UNAUTHORIZED = rejectUnauthorized;
+        }
+    });
+
+    const getLastRequestHeaders = () => proxy.requestHeaders[proxy.requestHeaders.length - 1];
+
+    it("Writes with encryption scope", async () => {
+        const storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageContainer: containerName,
+            blobStorageConnectionString: connectionString,
+            blobStorageEncryptionScope: "tenant-scope"
+        }), logger);
+
+        await storageClient.uploadBlob("encryption/scoped.txt", encoder.encode("scoped"));
+        expect(getLastRequestHeaders()["x-ms-encryption-scope"]).equals("tenant-scope");
+
+        await storageClient.uploadStreamToBlob("encryption/scoped-stream.txt", Readable.from([Buffer.from("scoped")]));
+        expect(getLastRequestHeaders()["x-ms-encryption-scope"]).equals("tenant-scope");
+
+        const uploadUrl = new URL(await storageClient.getUploadUrl("encryption/scoped.txt"));
+        expect(uploadUrl.searchParams.get("ses")).equals("tenant-scope");
+    });
+
+    it("Reads and writes with customer-provided key", async () => {
+        const requestedKeys: string[] = [];
+        const storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageContainer: containerName,
+            blobStorageConnectionString: connectionString,
+            blobStorageBasePath: "tenant1",
+            blobStorageEncryptionKeyProvider: async (fullBlobKey: string) => {
+                requestedKeys.push(fullBlobKey);
+                return encryptionKey;
+            }
+        }), logger);
+
+        await storageClient.uploadBlob("encryption/secret.txt", encoder.encode("secret"));
+        expect(getLastRequestHeaders()["x-ms-encryption-key"]).equals(encryptionKey);
+        expect(getLastRequestHeaders()["x-ms-encryption-key-sha256"]).equals(encryptionKeySha256);
+        expect(getLastRequestHeaders()["x-ms-encryption-algorithm"]).equals("AES256");
+
+        expect(decoder.decode(await storageClient.downloadBlob("encryption/secret.txt"))).equals("secret");
+        expect(getLastRequestHeaders()["x-ms-encryption-key-sha256"]).equals(encryptionKeySha256);
+
+        await streamToBuffer(await storageClient.getBlobAsStream("encryption/secret.txt"));
+        expect(getLastRequestHeaders()["x-ms-encryption-key-sha256"]).equals(encryptionKeySha256);
+
+        expect(requestedKeys).to.deep.equal(["tenant1/encryption/secret.txt", "tenant1/encryption/secret.txt", "tenant1/encryption/secret.txt"]);
+    });
+
+    it("Reports missing customer-provided key", async () => {
+        const storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageContainer: containerName,
+            blobStorageConnectionString: connectionString,
+            blobStorageEncryptionKeyProvider: () => null
+        }), logger);
+
+        const errors = [];
+        const attempts = [
+            () => storageClient.uploadBlob("encryption/secret.txt", encoder.encode("secret")),
+            () => storageClient.getDownloadUrl("encryption/secret.txt")
+        ];
+
+        for (const attempt of attempts) {
+            try {
+                await attempt();
+            }
+            catch (error) {
+                errors.push(error);
+            }
+        }
+
+        expect(errors[0]).to.be.instanceOf(BlobEncryptionKeyError);
+        expect(errors[0].code).equals("EncryptionKeyNotProvided");
+        expect(errors[1].message).equals("Unable to generate URL of blob encryption/secret.txt: blobs encrypted with customer-provided key can't be accessed without the key.");
+    });
+
+    it("Maps service error of missing key", async () => {
+        const storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageContainer: containerName,
+            blobStorageConnectionString: connectionString
+        }), logger);
+
+        let error: BlobEncryptionKeyError;
+        proxy.failNextRequests(1, 409, "BlobUsesCustomerSpecifiedEncryption");
+
+        try {
+            await storageClient.downloadBlob("encryption/secret.txt");
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error).to.be.instanceOf(BlobEncryptionKeyError);
+        expect(error.statusCode).equals(409);
+        expect(error.message).to.contain(`check "blobStorageEncryptionKeyProvider" setting`);
+    });
+
+    it("Refuses both encryption scope and customer-provided key", async () => {
+        const storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageContainer: containerName,
+            blobStorageConnectionString: connectionString,
+            blobStorageEncryptionScope: "tenant-scope",
+            blobStorageEncryptionKeyProvider: () => encryptionKey
+        }), logger);
+
+        let error: Error;
+
+        try {
+            await storageClient.listBlobs();
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).equals(`Settings "blobStorageEncryptionScope" and "blobStorageEncryptionKeyProvider" can't be used together.`);
+    });
+});
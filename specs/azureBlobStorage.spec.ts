@@ -1,105 +1,1428 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { expect } from "chai";
-import { describe, it } from "mocha";
+import { describe, it, before, after } from "mocha";
+import { Readable } from "stream";
+import * as zlib from "zlib";
+import { BlockBlobClient, ContainerClient } from "@azure/storage-blob";
+import { ConsoleLogger } from "@paperbits/common/logging";
 import { ServerAzureBlobStorage } from "../src/persistence/azureBlobStorage.server";
+import { BrowserAzureBlobStorage } from "../src/persistence/azureBlobStorage.browser";
+import { BlobAccessDeniedError } from "../src/persistence/blobAccessDeniedError";
+import { BlobConflictError } from "../src/persistence/blobConflictError";
+import { BlobLock } from "../src/persistence/blobLock";
+import { BlobLockedError } from "../src/persistence/blobLockedError";
+import { BlobNotFoundError } from "../src/persistence/blobNotFoundError";
+import { BlobStorageError } from "../src/persistence/blobStorageError";
+import { BlobThrottledError } from "../src/persistence/blobThrottledError";
 import { StaticSettingsProvider } from "./staticSettingsProvider";
-import { ConsoleLogger } from "@paperbits/common/logging";
+import { AzuriteHost } from "./azuriteHost";
+import { TransientFailureProxy } from "./transientFailureProxy";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function createContent(length: number): Uint8Array {
+    const content = new Uint8Array(length);
+
+    for (let index = 0; index < length; index += 1) {
+        content[index] = index % 251;
+    }
+
+    return content;
+}
+
+function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
+        stream.on("error", reject);
+    });
+}
 
 describe("Azure Blob Storage", async () => {
-    describe("Azure Blob Storage - blobStorageUrl", async () => {
-        const logger = new ConsoleLogger();
+    const logger = new ConsoleLogger();
+    const azurite = new AzuriteHost();
+    const containerName = "content";
+    let containerClient: ContainerClient;
 
-        const settingsProvider = new StaticSettingsProvider({
-            "blobStorageUrl": "blob storage url with limited access"
-        });
+    const seedBlobs = {
+        "seed/page1.html": "<h1>Page 1</h1>",
+        "seed/page2.html": "<h1>Page 2</h1>",
+        "seed/media/image.png": "not really a png",
+        "other/readme.txt": "Hello world"
+    };
+
+    before(async () => {
+        await azurite.start();
 
-        const storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
+        containerClient = azurite.getServiceClient().getContainerClient(containerName);
+        await containerClient.createIfNotExists();
+
+        for (const key of Object.keys(seedBlobs)) {
+            const content = encoder.encode(seedBlobs[key]);
+            await containerClient.getBlockBlobClient(key).upload(content, content.byteLength);
+        }
+    });
+
+    after(async () => {
+        await azurite.stop();
+    });
+
+    describe("Azure Blob Storage - connectionString", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(() => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString
+            });
+
+            storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
+        });
 
         it("Returns list of blobs", async () => {
             const items = await storageClient.listBlobs();
-            expect(items.length).greaterThan(1);
+            expect(items).to.include.members(Object.keys(seedBlobs));
+        });
+
+        it("Returns list of blobs with prefix", async () => {
+            const items = await storageClient.listBlobs("seed");
+            expect(items).to.have.members(["seed/page1.html", "seed/page2.html", "seed/media/image.png"]);
+        });
+
+        it("Downloads blob", async () => {
+            const content = await storageClient.downloadBlob("other/readme.txt");
+            expect(decoder.decode(content)).equals("Hello world");
+        });
+
+        it("Uploads blob with inferred content type", async () => {
+            await storageClient.uploadBlob("uploads/style.css", encoder.encode("body { color: red; }"));
 
-            const url = await storageClient.getDownloadUrl(items[0]);
-            expect(url !== undefined);
+            const properties = await containerClient.getBlobClient("uploads/style.css").getProperties();
+            expect(properties.contentType).equals("text/css");
 
-            const contentBlob = await storageClient.getBlobAsBlob(items[0]);
-            expect(contentBlob === undefined);
+            const content = await storageClient.downloadBlob("uploads/style.css");
+            expect(decoder.decode(content)).equals("body { color: red; }");
         });
 
-        it("Download blob", async () => {
+        it("Uploads blob with explicit content type", async () => {
+            await storageClient.uploadBlob("uploads/data", encoder.encode("{}"), "application/json");
+
+            const properties = await containerClient.getBlobClient("uploads/data").getProperties();
+            expect(properties.contentType).equals("application/json");
+        });
+
+        it("Uploads stream to blob", async () => {
+            await storageClient.uploadStreamToBlob("uploads/stream.txt", Readable.from([Buffer.from("Streamed "), Buffer.from("content")]));
+
+            const properties = await containerClient.getBlobClient("uploads/stream.txt").getProperties();
+            expect(properties.contentType).equals("text/plain");
+
+            const content = await storageClient.downloadBlob("uploads/stream.txt");
+            expect(decoder.decode(content)).equals("Streamed content");
+        });
+
+        it("Generates download URL with SAS token", async () => {
+            const url = await storageClient.getDownloadUrl("other/readme.txt");
+            expect(url).to.contain("sig=");
+
+            const response = await fetch(url);
+            expect(response.status).equals(200);
+            expect(await response.text()).equals("Hello world");
+        });
+
+        it("Deletes blob", async () => {
+            await storageClient.uploadBlob("uploads/delete-me.txt", encoder.encode("Delete me"));
+            await storageClient.deleteBlob("uploads/delete-me.txt");
+
+            const items = await storageClient.listBlobs("uploads/delete-me.txt");
+            expect(items).to.be.empty;
+        });
+
+        it("Tolerates deletion of missing blob", async () => {
+            await storageClient.deleteBlob("uploads/never-existed.txt");
+        });
+
+        it("Deletes blob folder", async () => {
+            for (let index = 0; index < 5; index += 1) {
+                await storageClient.uploadBlob(`folder/item${index}.txt`, encoder.encode(`Item ${index}`));
+            }
+
+            const report = await storageClient.deleteBlobFolder("folder");
+
+            expect(report.deleted).to.have.length(5);
+            expect(report.failed).to.be.empty;
+
+            const items = await storageClient.listBlobs("folder");
+            expect(items).to.be.empty;
+        });
+
+        it("Deletes blob folder in multiple batches", async () => {
+            const keys = [];
+
+            for (let index = 0; index < 520; index += 1) {
+                keys.push(`large-folder/item${index}.txt`);
+            }
+
+            for (const key of keys) {
+                await containerClient.getBlockBlobClient(key).upload("", 0);
+            }
+
+            const report = await storageClient.deleteBlobFolder("large-folder");
+
+            expect(report.deleted).to.have.members(keys);
+            expect(report.failed).to.be.empty;
+            expect(await storageClient.listBlobs("large-folder")).to.be.empty;
+        });
+
+        it("Creates and deletes container", async () => {
+            const temporaryStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: "temporary",
+                blobStorageConnectionString: azurite.connectionString
+            }), logger);
+
+            const temporaryContainerClient = azurite.getServiceClient().getContainerClient("temporary");
+
+            await temporaryStorageClient.createContainer();
+            expect(await temporaryContainerClient.exists()).equals(true);
+
+            await temporaryStorageClient.createContainer(); // idempotent
+
+            await temporaryStorageClient.deleteContainer();
+            expect(await temporaryContainerClient.exists()).equals(false);
+        });
+    });
+
+    describe("Azure Blob Storage - blobStorageBasePath", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(() => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "/tenants\\tenant1//"
+            });
+
+            storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
+        });
+
+        it("Makes proper blob key", async () => {
+            await storageClient.listBlobs();
+
+            expect(storageClient["getFullKey"]("/segment1/segment2")).equals("tenants/tenant1/segment1/segment2");
+            expect(storageClient["getFullKey"]("segment1//segment2/")).equals("tenants/tenant1/segment1/segment2");
+        });
+
+        it("Uploads and downloads blobs under base path", async () => {
+            await storageClient.uploadBlob("/images/logo.svg", encoder.encode("<svg></svg>"));
+
+            expect(await containerClient.getBlobClient("tenants/tenant1/images/logo.svg").exists()).equals(true);
+
+            const content = await storageClient.downloadBlob("images/logo.svg");
+            expect(decoder.decode(content)).equals("<svg></svg>");
+        });
+
+        it("Lists only blobs under base path", async () => {
             const items = await storageClient.listBlobs();
-            expect(items.length).greaterThan(1);
+            expect(items).to.have.members(["tenants/tenant1/images/logo.svg"]);
+        });
 
-            const url = await storageClient.getDownloadUrl(items[0]);
-            expect(url !== undefined);
+        it("Generates download URL under base path", async () => {
+            const url = await storageClient.getDownloadUrl("images/logo.svg");
+            expect(url).to.contain(`/${containerName}/tenants/tenant1/images/logo.svg?`);
+        });
+
+        it("Deletes blob folder under base path", async () => {
+            await storageClient.deleteBlobFolder("images");
 
-            const contentArray = await storageClient.downloadBlob(items[0]);
-            expect(contentArray !== undefined);
+            const items = await storageClient.listBlobs();
+            expect(items).to.be.empty;
+            expect(await containerClient.getBlobClient("other/readme.txt").exists()).equals(true);
         });
+    });
 
-        it("Returns list of blobs with prefix", async () => {
-            const items = await storageClient.listBlobs("202009162037");
-            expect(items.length).greaterThan(1);
+    describe("Azure Blob Storage - blobStorageUrl", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(() => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageUrl: azurite.getContainerSasUrl(containerName)
+            });
+
+            storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
         });
 
         it("Returns list of blobs with prefix", async () => {
-            const items = await storageClient.listBlobs("202009162037");
-            expect(items.length).greaterThan(1);
-            await storageClient.deleteBlob(items[0]);
+            const items = await storageClient.listBlobs("seed/media");
+            expect(items).to.have.members(["seed/media/image.png"]);
+        });
 
-            const itemsAfterDelete = await storageClient.listBlobs("202009162037");
-            expect(itemsAfterDelete.length).lessThan(items.length);
+        it("Uploads and downloads blob", async () => {
+            await storageClient.uploadBlob("sas/page.html", encoder.encode("<p>SAS</p>"));
+
+            const properties = await containerClient.getBlobClient("sas/page.html").getProperties();
+            expect(properties.contentType).equals("text/html");
+
+            const content = await storageClient.downloadBlob("sas/page.html");
+            expect(decoder.decode(content)).equals("<p>SAS</p>");
+        });
+
+        it("Uploads stream to blob", async () => {
+            await storageClient.uploadStreamToBlob("sas/stream.json", Readable.from([Buffer.from("[]")]));
+
+            const properties = await containerClient.getBlobClient("sas/stream.json").getProperties();
+            expect(properties.contentType).equals("application/json");
+        });
+
+        it("Generates download URL carrying container SAS", async () => {
+            const url = await storageClient.getDownloadUrl("sas/page.html");
+
+            const response = await fetch(url);
+            expect(response.status).equals(200);
+            expect(await response.text()).equals("<p>SAS</p>");
+        });
+
+        it("Deletes blob", async () => {
+            await storageClient.deleteBlob("sas/page.html");
+            await storageClient.deleteBlob("sas/page.html");
+
+            expect(await containerClient.getBlobClient("sas/page.html").exists()).equals(false);
+        });
+
+        it("Deletes blob folder without batch client", async () => {
+            await storageClient.uploadBlob("sas/folder/a.txt", encoder.encode("a"));
+            await storageClient.uploadBlob("sas/folder/b.txt", encoder.encode("b"));
+
+            const report = await storageClient.deleteBlobFolder("sas/folder");
+
+            expect(report.deleted).to.have.members(["sas/folder/a.txt", "sas/folder/b.txt"]);
+            expect(report.failed).to.be.empty;
+            expect(await storageClient.listBlobs("sas/folder")).to.be.empty;
         });
 
-        it("Makes proper blob key", () => {
-            const method = storageClient["getFullKey"];
+        it("Reports blobs which couldn't be deleted", async () => {
+            const readOnlyStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageUrl: azurite.getContainerSasUrl(containerName, "rl")
+            }), logger);
 
-            expect(method("/segment1/segment2")).equals("/segment1/segment2")
+            const report = await readOnlyStorageClient.deleteBlobFolder("seed/media");
 
-        })
+            expect(report.deleted).to.be.empty;
+            expect(report.failed.map(failure => failure.key)).to.deep.equal(["seed/media/image.png"]);
+        });
     });
 
-    describe("Azure Blob Storage - connectionString", async () => {
-        const logger = new ConsoleLogger();
+    describe("Azure Blob Storage - optimistic concurrency", async () => {
+        let storageClient: ServerAzureBlobStorage;
 
-        const settingsProvider = new StaticSettingsProvider({
-            "blobStorageContainer": "content",
-            "blobStorageConnectionString": "DefaultEndpointsProtocol=https;AccountName={storage account name};AccountKey=iKlw3vTw/SuYLa4ErHD6q3GdcCg6L/qXL/RCMp8u5hhRKzlyeiokrmMpf705iQLOlYIIkF9wC4PaDTf0oLbm+A==;EndpointSuffix=core.windows.net",
+        before(() => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "concurrency"
+            });
+
+            storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
         });
-        const container = new ServerAzureBlobStorage(settingsProvider, logger);
 
-        it("Returns list of blobs", async () => {
-            const items = await container.listBlobs();
-            expect(items.length).greaterThan(1);
+        async function expectConflict(action: () => Promise<unknown>, statusCode: number): Promise<void> {
+            let error: BlobConflictError;
+
+            try {
+                await action();
+            }
+            catch (exception) {
+                error = exception;
+            }
 
-            const url = await container.getDownloadUrl(items[0]);
-            expect(url !== undefined);
+            expect(error).to.be.instanceOf(BlobConflictError);
+            expect(error.statusCode).equals(statusCode);
+        }
 
-            const contentBlob = await container.getBlobAsBlob(items[0]);
-            expect(contentBlob === undefined);
+        it("Returns ETag on download", async () => {
+            await storageClient.uploadBlob("page.json", encoder.encode("{}"));
+
+            const downloadedBlob = await storageClient.downloadBlobWithETag("page.json");
+            const properties = await containerClient.getBlobClient("concurrency/page.json").getProperties();
+
+            expect(downloadedBlob.etag).equals(properties.etag);
+            expect(decoder.decode(downloadedBlob.content)).equals("{}");
         });
 
-        it("Download blob", async () => {
-            const items = await container.listBlobs();
-            expect(items.length).greaterThan(1);
+        it("Rejects upload of stale content", async () => {
+            await storageClient.uploadBlob("page.json", encoder.encode("{ \"v\": 1 }"));
+            const staleBlob = await storageClient.downloadBlobWithETag("page.json");
+
+            await storageClient.uploadBlob("page.json", encoder.encode("{ \"v\": 2 }"), null, { ifMatch: staleBlob.etag });
 
-            const url = await container.getDownloadUrl(items[0]);
-            expect(url !== undefined);
+            await expectConflict(() => storageClient.uploadBlob("page.json", encoder.encode("{ \"v\": 3 }"), null, { ifMatch: staleBlob.etag }), 412);
+            await expectConflict(() => storageClient.uploadStreamToBlob("page.json", Readable.from([Buffer.from("{}")]), null, { ifMatch: staleBlob.etag }), 412);
 
-            const contentArray = await container.downloadBlob(items[0]);
-            expect(contentArray !== undefined);
+            const content = await storageClient.downloadBlob("page.json");
+            expect(decoder.decode(content)).equals("{ \"v\": 2 }");
         });
 
-        it("Returns list of blobs with prefix", async () => {
-            const items = await container.listBlobs("202009171944");
-            expect(items.length).greaterThan(1);
-            await container.deleteBlob(items[0]);
+        it("Rejects creation of existing blob", async () => {
+            await storageClient.uploadBlob("new.json", encoder.encode("{}"), null, { ifNoneMatch: "*" });
+            await expectConflict(() => storageClient.uploadBlob("new.json", encoder.encode("{}"), null, { ifNoneMatch: "*" }), 409);
+        });
+
+        it("Rejects deletion of modified blob", async () => {
+            await storageClient.uploadBlob("delete.json", encoder.encode("{}"));
+            const staleBlob = await storageClient.downloadBlobWithETag("delete.json");
+
+            await storageClient.uploadBlob("delete.json", encoder.encode("[]"));
+            const freshBlob = await storageClient.downloadBlobWithETag("delete.json");
+
+            await expectConflict(() => storageClient.deleteBlob("delete.json", { ifMatch: staleBlob.etag }), 412);
+            await storageClient.deleteBlob("delete.json", { ifMatch: freshBlob.etag });
+
+            expect(await storageClient.listBlobs("delete.json")).to.be.empty;
+        });
+    });
+
+    describe("Azure Blob Storage - properties, metadata and tags", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(() => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "library"
+            });
+
+            storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
+        });
+
+        it("Returns blob properties", async () => {
+            await storageClient.uploadBlob("images/logo.png", encoder.encode("logo"));
+
+            const properties = await storageClient.getBlobProperties("images/logo.png");
+
+            expect(properties.key).equals("library/images/logo.png");
+            expect(properties.size).equals(4);
+            expect(properties.contentType).equals("image/png");
+            expect(properties.lastModified).to.be.instanceOf(Date);
+            expect(properties.etag).to.be.a("string");
+            expect(properties.contentMD5).equals("ltby5+H3BateWchKbcAJsg==");
+            expect(properties.metadata).to.deep.equal({});
+
+            expect(await storageClient.getBlobProperties("images/missing.png")).equals(null);
+        });
+
+        it("Sets blob metadata", async () => {
+            await storageClient.setBlobMetadata("images/logo.png", { owner: "john" });
+
+            const [properties] = await storageClient.listBlobProperties("images");
+
+            expect(properties.key).equals("library/images/logo.png");
+            expect(properties.size).equals(4);
+            expect(properties.metadata).to.deep.equal({ owner: "john" });
+        });
+
+        it("Finds blobs by tags", async () => {
+            await storageClient.uploadBlob("images/photo.jpg", encoder.encode("photo"));
+            await storageClient.setBlobTags("images/logo.png", { kind: "media", owner: "john" });
+            await storageClient.setBlobTags("images/photo.jpg", { kind: "media", owner: "jane" });
+
+            expect(await storageClient.getBlobTags("images/logo.png")).to.deep.equal({ kind: "media", owner: "john" });
+            expect(await storageClient.findBlobsByTags("kind = 'media' AND owner = 'john'")).to.deep.equal(["library/images/logo.png"]);
+            expect(await storageClient.findBlobsByTags("kind = 'media'")).to.have.members(["library/images/logo.png", "library/images/photo.jpg"]);
+        });
+
+        it("Throws not found error for tags of missing blob", async () => {
+            let error: BlobNotFoundError;
+
+            try {
+                await storageClient.setBlobTags("images/missing.png", { kind: "media" });
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error).to.be.instanceOf(BlobNotFoundError);
+            expect(error.blobKey).equals("library/images/missing.png");
+            expect(error.statusCode).equals(404);
+        });
+    });
+
+    describe("Azure Blob Storage - paged listing", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "paging"
+            });
+
+            storageClient = new ServerAzureBlobStorage(settingsProvider, logger);
+
+            for (const key of ["a.txt", "b.txt", "folder1/c.txt", "folder1/d.txt", "folder2/nested/e.txt"]) {
+                await storageClient.uploadBlob(key, encoder.encode(key));
+            }
+        });
+
+        it("Returns blobs page by page", async () => {
+            const firstPage = await storageClient.listBlobsPage("", { pageSize: 3 });
+            expect(firstPage.blobs).to.deep.equal(["paging/a.txt", "paging/b.txt", "paging/folder1/c.txt"]);
+            expect(firstPage.folders).to.be.empty;
+            expect(firstPage.continuationToken).to.be.a("string");
+
+            const secondPage = await storageClient.listBlobsPage("", { pageSize: 3, continuationToken: firstPage.continuationToken });
+            expect(secondPage.blobs).to.deep.equal(["paging/folder1/d.txt", "paging/folder2/nested/e.txt"]);
+            expect(secondPage.continuationToken).equals(null);
+        });
+
+        it("Iterates blobs", async () => {
+            const keys = [];
+
+            for await (const key of storageClient.iterateBlobs("folder", 1)) {
+                keys.push(key);
+            }
+
+            expect(keys).to.deep.equal(["paging/folder1/c.txt", "paging/folder1/d.txt", "paging/folder2/nested/e.txt"]);
+        });
+
+        it("Returns blobs folder by folder", async () => {
+            const rootPage = await storageClient.listBlobsPage("", { hierarchical: true });
+            expect(rootPage.blobs).to.deep.equal(["paging/a.txt", "paging/b.txt"]);
+            expect(rootPage.folders).to.deep.equal(["paging/folder1/", "paging/folder2/"]);
+
+            const folderPage = await storageClient.listBlobsPage("folder2", { hierarchical: true });
+            expect(folderPage.blobs).to.be.empty;
+            expect(folderPage.folders).to.deep.equal(["paging/folder2/nested/"]);
+        });
+    });
+
+    describe("Azure Blob Storage - copy and move", async () => {
+        let storageClient: ServerAzureBlobStorage;
+        let sasStorageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "copying"
+            }), logger);
+
+            sasStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageUrl: azurite.getContainerSasUrl(containerName),
+                blobStorageBasePath: "copying"
+            }), logger);
+        });
+
+        it("Copies blob", async () => {
+            await storageClient.uploadBlob("original.txt", encoder.encode("Original"));
+            await storageClient.copyBlob("original.txt", "copies/copy.txt");
+
+            expect(decoder.decode(await storageClient.downloadBlob("copies/copy.txt"))).equals("Original");
+            expect((await storageClient.getBlobProperties("copies/copy.txt")).contentType).equals("text/plain");
+            expect(await storageClient.getBlobProperties("original.txt")).not.equals(null);
+        });
+
+        it("Copies blob with SAS client", async () => {
+            await sasStorageClient.copyBlob("original.txt", "copies/sas-copy.txt");
+            expect(decoder.decode(await sasStorageClient.downloadBlob("copies/sas-copy.txt"))).equals("Original");
+        });
+
+        it("Refuses to overwrite target when asked", async () => {
+            let error: Error;
+
+            try {
+                await storageClient.copyBlob("original.txt", "copies/copy.txt", { ifNoneMatch: "*" });
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error).to.be.instanceOf(BlobConflictError);
+        });
+
+        it("Moves blob", async () => {
+            await storageClient.moveBlob("copies/copy.txt", "renamed.txt");
+
+            expect(await storageClient.getBlobProperties("copies/copy.txt")).equals(null);
+            expect(decoder.decode(await storageClient.downloadBlob("renamed.txt"))).equals("Original");
+        });
+
+        it("Copies and moves blob folder", async () => {
+            await storageClient.uploadBlob("assets/a.txt", encoder.encode("a"));
+            await storageClient.uploadBlob("assets/nested/b.txt", encoder.encode("b"));
+            await storageClient.uploadBlob("assets-other/c.txt", encoder.encode("c"));
+
+            const copiedKeys = await storageClient.copyBlobFolder("assets", "backup/assets");
+            expect(copiedKeys).to.have.members(["copying/backup/assets/a.txt", "copying/backup/assets/nested/b.txt"]);
+
+            const movedKeys = await storageClient.moveBlobFolder("assets", "media");
+            expect(movedKeys).to.have.members(["copying/media/a.txt", "copying/media/nested/b.txt"]);
+
+            expect(await storageClient.listBlobs("assets")).to.deep.equal(["copying/assets-other/c.txt"]);
+            expect(decoder.decode(await storageClient.downloadBlob("media/nested/b.txt"))).equals("b");
+        });
+    });
+
+    describe("Azure Blob Storage - shared access signatures", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "signatures",
+                blobStorageSas: { download: { expiresInMinutes: 30 } }
+            }), logger);
+
+            await storageClient.uploadBlob("reports/report.txt", encoder.encode("Report"));
+        });
+
+        it("Generates download URL from settings and options", async () => {
+            const downloadUrl = new URL(await storageClient.getDownloadUrl("reports/report.txt", {
+                contentDisposition: `attachment; filename="report.txt"`
+            }));
+
+            const expiresInMinutes = (Date.parse(downloadUrl.searchParams.get("se")) - Date.now()) / 60000;
+            expect(expiresInMinutes).to.be.within(28, 30);
+            expect(downloadUrl.searchParams.get("sp")).equals("r");
+
+            const response = await fetch(downloadUrl);
+            expect(response.status).equals(200);
+            expect(response.headers.get("content-disposition")).equals(`attachment; filename="report.txt"`);
+            expect(await response.text()).equals("Report");
+        });
+
+        it("Adds IP range and protocol restrictions", async () => {
+            const downloadUrl = new URL(await storageClient.getDownloadUrl("reports/report.txt", {
+                ipRange: "203.0.113.0-203.0.113.255",
+                protocol: "https,http"
+            }));
+
+            expect(downloadUrl.searchParams.get("sip")).equals("203.0.113.0-203.0.113.255");
+            expect(downloadUrl.searchParams.get("spr")).equals("https,http");
+        });
+
+        it("Generates upload URL", async () => {
+            const uploadUrl = await storageClient.getUploadUrl("uploads/photo.txt");
+            const response = await fetch(uploadUrl, {
+                method: "PUT",
+                headers: { "x-ms-blob-type": "BlockBlob" },
+                body: "Uploaded"
+            });
+
+            expect(response.status).equals(201);
+            expect(decoder.decode(await storageClient.downloadBlob("uploads/photo.txt"))).equals("Uploaded");
+        });
+
+        it("Refuses upload with read-only URL", async () => {
+            const downloadUrl = await storageClient.getDownloadUrl("uploads/denied.txt");
+            const response = await fetch(downloadUrl, {
+                method: "PUT",
+                headers: { "x-ms-blob-type": "BlockBlob" },
+                body: "Denied"
+            });
+
+            expect(response.status).equals(403);
+        });
+
+        it("Generates container URL usable as blobStorageUrl setting", async () => {
+            const containerStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString
+            }), logger);
+
+            const sasStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageUrl: await containerStorageClient.getContainerUrl(),
+                blobStorageBasePath: "signatures"
+            }), logger);
+
+            expect(await sasStorageClient.listBlobs("reports")).to.deep.equal(["signatures/reports/report.txt"]);
+            expect(decoder.decode(await sasStorageClient.downloadBlob("reports/report.txt"))).equals("Report");
+        });
+
+        it("Refuses to generate container URL for client under base path", async () => {
+            let error: Error;
+
+            try {
+                await storageClient.getContainerUrl();
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.message).contains("blobStorageBasePath");
+            expect(error?.message).contains("getDownloadUrl");
+        });
+
+        it("Generates SAS based on stored access policy", async () => {
+            const expiresOn = new Date();
+            expiresOn.setHours(expiresOn.getHours() + 1);
+
+            await containerClient.setAccessPolicy(undefined, [{
+                id: "readers",
+                accessPolicy: { permissions: "r", expiresOn: expiresOn }
+            }]);
+
+            const downloadUrl = new URL(await storageClient.getDownloadUrl("reports/report.txt", { identifier: "readers" }));
+
+            expect(downloadUrl.searchParams.get("si")).equals("readers");
+            expect(downloadUrl.searchParams.has("sp")).equals(false);
+            expect(downloadUrl.searchParams.has("se")).equals(false);
+
+            const response = await fetch(downloadUrl);
+            expect(await response.text()).equals("Report");
+        });
+    });
+
+    describe("Azure Blob Storage - range and streaming downloads", async () => {
+        const content = createContent(64);
+        let storageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "ranges"
+            }), logger);
+
+            await storageClient.uploadBlob("media/video.mp4", content);
+        });
+
+        it("Downloads blob range", async () => {
+            expect(await storageClient.downloadBlobRange("media/video.mp4", 2, 4)).to.deep.equal(content.slice(2, 6));
+            expect(await storageClient.downloadBlobRange("media/video.mp4", 60)).to.deep.equal(content.slice(60));
+        });
+
+        it("Streams blob range", async () => {
+            const download = await storageClient.downloadBlobStream("media/video.mp4", { offset: 10, count: 20 });
+
+            expect(download.statusCode).equals(206);
+            expect(download.contentRange).equals("bytes 10-29/64");
+            expect(download.contentLength).equals(20);
+            expect(download.contentType).equals("video/mp4");
+            expect(new Uint8Array(await streamToBuffer(download.stream))).to.deep.equal(content.slice(10, 30));
+        });
+
+        it("Streams entire blob", async () => {
+            const stream = await storageClient.getBlobAsStream("media/video.mp4");
+            expect(new Uint8Array(await streamToBuffer(stream))).to.deep.equal(content);
+        });
+
+        it("Skips download of blob that wasn't modified", async () => {
+            const properties = await storageClient.getBlobProperties("media/video.mp4");
+            const notModifiedSince = new Date(properties.lastModified.getTime() + 60000);
+
+            const matchingDownload = await storageClient.downloadBlobStream("media/video.mp4", { ifNoneMatch: properties.etag });
+            const unmodifiedDownload = await storageClient.downloadBlobStream("media/video.mp4", { ifModifiedSince: notModifiedSince });
+            const modifiedDownload = await storageClient.downloadBlobStream("media/video.mp4", { ifNoneMatch: `"0x0"` });
+
+            expect(matchingDownload.statusCode).equals(304);
+            expect(matchingDownload.stream).equals(null);
+            expect(matchingDownload.etag).equals(properties.etag);
+            expect(unmodifiedDownload.statusCode).equals(304);
+            expect(modifiedDownload.statusCode).equals(200);
+
+            await streamToBuffer(modifiedDownload.stream);
+        });
+    });
+
+    describe("Azure Blob Storage - upload headers and compression", async () => {
+        const stylesheet = encoder.encode("body { margin: 0; }\n".repeat(200));
+        let storageClient: ServerAzureBlobStorage;
+        let compressingStorageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "headers"
+            }), logger);
+
+            compressingStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "headers",
+                blobStorageCompression: { encoding: "br" },
+                blobStorageCacheControl: { html: "no-cache", "*": "public, max-age=3600" }
+            }), logger);
+        });
+
+        it("Uploads blob with HTTP headers and metadata", async () => {
+            await storageClient.uploadBlob("documents/report.pdf", encoder.encode("%PDF"), null, {
+                cacheControl: "private, max-age=60",
+                contentDisposition: `attachment; filename="report.pdf"`,
+                contentLanguage: "en-US",
+                metadata: { author: "john" }
+            });
+
+            const properties = await containerClient.getBlobClient("headers/documents/report.pdf").getProperties();
+
+            expect(properties.contentType).equals("application/pdf");
+            expect(properties.cacheControl).equals("private, max-age=60");
+            expect(properties.contentDisposition).equals(`attachment; filename="report.pdf"`);
+            expect(properties.contentLanguage).equals("en-US");
+            expect(properties.contentEncoding).equals(undefined);
+            expect(properties.metadata).to.deep.equal({ author: "john" });
+        });
+
+        it("Compresses text assets and applies cache rules", async () => {
+            await compressingStorageClient.uploadBlob("site/styles.css", stylesheet);
+            await compressingStorageClient.uploadBlob("site/index.html", encoder.encode("<html></html>"));
+            await compressingStorageClient.uploadBlob("site/logo.png", stylesheet);
+
+            const stylesClient = containerClient.getBlobClient("headers/site/styles.css");
+            const styles = await stylesClient.getProperties();
+            const page = await containerClient.getBlobClient("headers/site/index.html").getProperties();
+            const logo = await containerClient.getBlobClient("headers/site/logo.png").getProperties();
+
+            expect(styles.contentEncoding).equals("br");
+            expect(styles.contentLength).to.be.lessThan(stylesheet.byteLength);
+            expect(styles.cacheControl).equals("public, max-age=3600");
+            expect(zlib.brotliDecompressSync(await stylesClient.downloadToBuffer())).to.deep.equal(Buffer.from(stylesheet));
+
+            expect(page.contentEncoding).equals(undefined); // smaller than minimal size
+            expect(page.cacheControl).equals("no-cache");
+            expect(logo.contentEncoding).equals(undefined);
+        });
+
+        it("Decodes compressed content on download", async () => {
+            await compressingStorageClient.uploadBlob("site/theme.css", stylesheet);
+
+            const downloadedBlob = await compressingStorageClient.downloadBlobWithETag("site/theme.css");
+            const stream = await compressingStorageClient.getBlobAsStream("site/theme.css");
+            const storedStream = await compressingStorageClient.downloadBlobStream("site/theme.css");
+
+            expect(await compressingStorageClient.downloadBlob("site/theme.css")).to.deep.equal(stylesheet);
+            expect(downloadedBlob.content).to.deep.equal(stylesheet);
+            expect(await compressingStorageClient.downloadBlobRange("site/theme.css", 0)).to.deep.equal(stylesheet);
+            expect(await streamToBuffer(stream)).to.deep.equal(Buffer.from(stylesheet));
+
+            expect(storedStream.contentEncoding).equals("br");
+            expect(zlib.brotliDecompressSync(await streamToBuffer(storedStream.stream))).to.deep.equal(Buffer.from(stylesheet));
+        });
+
+        it("Refuses to download range of compressed content", async () => {
+            await compressingStorageClient.uploadBlob("site/theme.css", stylesheet);
+
+            for (const download of [
+                () => compressingStorageClient.downloadBlobRange("site/theme.css", 10, 20),
+                () => compressingStorageClient.getBlobAsStream("site/theme.css", { offset: 10, count: 20 })
+            ]) {
+                let error: BlobStorageError;
+
+                try {
+                    await download();
+                }
+                catch (exception) {
+                    error = exception;
+                }
+
+                expect(error).to.be.instanceOf(BlobStorageError);
+                expect(error.statusCode).equals(416);
+            }
+        });
+
+        it("Compresses streams on demand", async () => {
+            await storageClient.uploadStreamToBlob("site/data.json", Readable.from([Buffer.from(stylesheet)]), null, { compress: true });
+
+            const blobClient = containerClient.getBlobClient("headers/site/data.json");
+            const properties = await blobClient.getProperties();
+
+            expect(properties.contentEncoding).equals("gzip");
+            expect(properties.contentType).equals("application/json");
+            expect(zlib.gunzipSync(await blobClient.downloadToBuffer())).to.deep.equal(Buffer.from(stylesheet));
+        });
+
+        it("Doesn't compress already encoded content", async () => {
+            const compressedContent = zlib.gzipSync(stylesheet);
+
+            await compressingStorageClient.uploadBlob("site/legacy.css", compressedContent, null, { contentEncoding: "gzip" });
+
+            const blobClient = containerClient.getBlobClient("headers/site/legacy.css");
+            expect((await blobClient.getProperties()).contentEncoding).equals("gzip");
+            expect(await blobClient.downloadToBuffer()).to.deep.equal(compressedContent);
+        });
+    });
+
+    describe("Azure Blob Storage - static site deployment", async () => {
+        let storageClient: ServerAzureBlobStorage;
+        let siteFolderPath: string;
+
+        const writeSiteFile = async (relativePath: string, content: string) => {
+            const filePath = path.join(siteFolderPath, relativePath);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, content);
+        };
+
+        before(async () => {
+            siteFolderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), "paperbits-site-"));
+
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: "$web",
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageCompression: { encoding: "gzip", minSize: 0 }
+            }), logger);
+
+            await storageClient.createContainer();
+            await writeSiteFile("index.html", "<html>Home</html>");
+            await writeSiteFile("css/site.css", "body {}");
+            await writeSiteFile("images/logo.png", "logo");
+        });
+
+        after(async () => {
+            await fs.promises.rm(siteFolderPath, { recursive: true, force: true });
+        });
+
+        it("Uploads all files on first deployment", async () => {
+            const summary = await storageClient.deployFolder(siteFolderPath);
+
+            expect(summary.uploaded).to.deep.equal(["css/site.css", "images/logo.png", "index.html"]);
+            expect(summary.skipped).to.be.empty;
+
+            const properties = await storageClient.getBlobProperties("css/site.css");
+            expect(properties.contentType).equals("text/css");
+        });
+
+        it("Skips unchanged files", async () => {
+            const summary = await storageClient.deployFolder(siteFolderPath);
+
+            expect(summary.uploaded).to.be.empty;
+            expect(summary.skipped).to.deep.equal(["css/site.css", "images/logo.png", "index.html"]);
+        });
+
+        it("Plans deployment in dry run", async () => {
+            await writeSiteFile("css/site.css", "body { margin: 0; }");
+            await writeSiteFile("about/index.html", "<html>About</html>");
+            await fs.promises.rm(path.join(siteFolderPath, "images", "logo.png"));
+
+            const summary = await storageClient.deployFolder(siteFolderPath, { deleteOrphans: true, dryRun: true });
+
+            expect(summary.uploaded).to.deep.equal(["about/index.html", "css/site.css"]);
+            expect(summary.skipped).to.deep.equal(["index.html"]);
+            expect(summary.deleted).to.deep.equal(["images/logo.png"]);
+            expect(await storageClient.listBlobs()).to.deep.equal(["css/site.css", "images/logo.png", "index.html"]);
+        });
+
+        it("Uploads changed files and deletes orphans", async () => {
+            const summary = await storageClient.deployFolder(siteFolderPath, { deleteOrphans: true });
+
+            expect(summary.uploaded).to.deep.equal(["about/index.html", "css/site.css"]);
+            expect(summary.deleted).to.deep.equal(["images/logo.png"]);
+            expect(await storageClient.listBlobs()).to.deep.equal(["about/index.html", "css/site.css", "index.html"]);
+        });
+
+        it("Deploys into target folder", async () => {
+            const summary = await storageClient.deployFolder(siteFolderPath, { targetFolder: "preview" });
+
+            expect(summary.uploaded).to.deep.equal(["preview/about/index.html", "preview/css/site.css", "preview/index.html"]);
+            expect(await storageClient.listBlobs("preview")).to.have.length(3);
+        });
+    });
+
+    describe("Azure Blob Storage - account configuration", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: "$web",
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageStaticWebsite: { errorDocument404Path: "errors/404.html" },
+                blobStorageCorsOrigins: "https://designer.contoso.com/, http://localhost:8080"
+            }), logger);
+        });
+
+        it("Enables static website hosting", async () => {
+            const staticWebsite = await storageClient.configureStaticWebsite();
+            const repeatedStaticWebsite = await storageClient.configureStaticWebsite();
+
+            expect(staticWebsite.enabled).equals(true);
+            expect(staticWebsite.indexDocument).equals("index.html");
+            expect(staticWebsite.errorDocument404Path).equals("errors/404.html");
+            expect(repeatedStaticWebsite).to.deep.equal(staticWebsite);
+        });
+
+        it("Configures CORS preserving other rules", async () => {
+            const serviceClient = azurite.getServiceClient();
+            const otherRule = {
+                allowedOrigins: "https://other.contoso.com",
+                allowedMethods: "GET",
+                allowedHeaders: "",
+                exposedHeaders: "",
+                maxAgeInSeconds: 60
+            };
+
+            await serviceClient.setProperties({ cors: [otherRule] });
+
+            const corsRules = await storageClient.configureCors();
+            const repeatedCorsRules = await storageClient.configureCors();
+
+            expect(corsRules).to.have.length(2);
+            expect(corsRules[0].allowedOrigins).equals("https://other.contoso.com");
+            expect(corsRules[1].allowedOrigins).equals("https://designer.contoso.com,http://localhost:8080");
+            expect(corsRules[1].allowedMethods).to.contain("PUT");
+            expect(repeatedCorsRules).to.deep.equal(corsRules);
+        });
+
+        it("Requires account credentials", async () => {
+            const sasStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageUrl: azurite.getContainerSasUrl(containerName)
+            }), logger);
+
+            let error: Error;
+
+            try {
+                await sasStorageClient.configureCors(["https://designer.contoso.com"]);
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.message).equals(`Setting "blobStorageConnectionString" or "blobStorageAccountUrl" required to configure storage account.`);
+        });
+    });
+
+    describe("Azure Blob Storage - snapshots and restore", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString,
+                blobStorageBasePath: "history",
+                blobStorageSnapshotOnOverwrite: true
+            }), logger);
+        });
+
+        it("Snapshots blob before overwrite", async () => {
+            await storageClient.uploadBlob("pages/about.json", encoder.encode("v1"));
+            await storageClient.uploadBlob("pages/about.json", encoder.encode("v2"));
+            await storageClient.uploadBlob("pages/about.json", encoder.encode("v3"));
+            await storageClient.uploadBlob("pages/about.json.bak", encoder.encode("other"));
+
+            const versions = await storageClient.listBlobVersions("pages/about.json");
+
+            expect(versions.map(version => version.isCurrent)).to.deep.equal([true, false, false]);
+            expect(versions.every(version => version.key === "history/pages/about.json" && !version.isDeleted)).equals(true);
+            expect(versions[1].snapshot > versions[2].snapshot).equals(true);
+            expect(decoder.decode(await storageClient.downloadBlobVersion("pages/about.json", versions[1]))).equals("v2");
+            expect(decoder.decode(await storageClient.downloadBlobVersion("pages/about.json", versions[2]))).equals("v1");
+        });
+
+        it("Promotes snapshot to current blob", async () => {
+            const [, , oldestVersion] = await storageClient.listBlobVersions("pages/about.json");
+
+            await storageClient.restoreBlobVersion("pages/about.json", oldestVersion);
+
+            const versions = await storageClient.listBlobVersions("pages/about.json");
+
+            expect(decoder.decode(await storageClient.downloadBlob("pages/about.json"))).equals("v1");
+            expect(versions).to.have.length(4);
+            expect(decoder.decode(await storageClient.downloadBlobVersion("pages/about.json", versions[1]))).equals("v3");
+        });
+
+        it("Creates snapshot on demand", async () => {
+            const snapshot = await storageClient.createBlobSnapshot("pages/about.json.bak");
+            const versions = await storageClient.listBlobVersions("pages/about.json.bak");
+
+            expect(versions.map(version => version.snapshot)).to.deep.equal([undefined, snapshot]);
+        });
+
+        it("Deletes blob along with its snapshots", async () => {
+            await storageClient.deleteBlob("pages/about.json");
+            await storageClient.deleteBlobFolder("pages");
+
+            expect(await containerClient.getBlobClient("history/pages/about.json").exists()).equals(false);
+            expect(await storageClient.listBlobs("pages")).to.be.empty;
+        });
+
+        it("Requires snapshot or version", async () => {
+            let error: Error;
+
+            try {
+                await storageClient.downloadBlobVersion("pages/about.json", {});
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.message).equals("Snapshot or version required to access previous state of blob history/pages/about.json.");
+        });
+    });
+
+    describe("Azure Blob Storage - distributed lock", async () => {
+        let storageClient: ServerAzureBlobStorage;
+
+        class RenewalCountingStorage extends ServerAzureBlobStorage {
+            public renewalCount: number = 0;
+
+            public override async renewLock(lock: BlobLock): Promise<void> {
+                this.renewalCount += 1;
+                await super.renewLock(lock);
+            }
+
+            protected override getLockRenewalIntervalInMs(): number {
+                return 100;
+            }
+        }
+
+        const createSettings = () => new StaticSettingsProvider({
+            blobStorageContainer: containerName,
+            blobStorageConnectionString: azurite.connectionString,
+            blobStorageBasePath: "locking"
+        });
+
+        before(async () => {
+            storageClient = new ServerAzureBlobStorage(createSettings(), logger);
+        });
+
+        it("Refuses lock held by someone else", async () => {
+            const lock = await storageClient.acquireLock("publishing", 15, "job-1");
+            let error: BlobLockedError;
+
+            try {
+                await storageClient.acquireLock("publishing", 15, "job-2");
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error).to.be.instanceOf(BlobLockedError);
+            expect(error.holder).equals("job-1");
+            expect(error.acquiredOn.getTime()).equals(lock.acquiredOn.getTime());
+            expect(error.message).equals(`Lock publishing is held by job-1 since ${lock.acquiredOn.toISOString()}.`);
+            expect(await containerClient.getBlobClient("locking/.locks/publishing").exists()).equals(true);
+
+            await storageClient.renewLock(lock);
+            await storageClient.releaseLock(lock);
+
+            const nextLock = await storageClient.acquireLock("publishing", 15, "job-2");
+            await storageClient.releaseLock(nextLock);
+            await storageClient.releaseLock(lock);
+        });
+
+        it("Renews lock while work is in progress", async () => {
+            const renewingStorageClient = new RenewalCountingStorage(createSettings(), logger);
+
+            const result = await renewingStorageClient.withLock("renewed", async (lock, abortSignal) => {
+                await new Promise(resolve => setTimeout(resolve, 350));
+
+                expect(abortSignal.aborted).equals(false);
+                return lock.holder;
+            }, 15);
+
+            const lock = await storageClient.acquireLock("renewed", 15);
+            await storageClient.releaseLock(lock);
+
+            expect(renewingStorageClient.renewalCount).to.be.greaterThanOrEqual(2);
+            expect(result).equals(lock.holder);
+        });
+
+        it("Aborts work when lock is lost", async () => {
+            const renewingStorageClient = new RenewalCountingStorage(createSettings(), logger);
+
+            const aborted = await renewingStorageClient.withLock("lost", async (lock, abortSignal) => {
+                await containerClient.getBlobClient("locking/.locks/lost").getBlobLeaseClient().breakLease(0);
+                await new Promise(resolve => setTimeout(resolve, 350));
+
+                return abortSignal.aborted;
+            }, 15);
+
+            expect(aborted).equals(true);
+        });
+
+        it("Validates lock duration", async () => {
+            let error: Error;
+
+            try {
+                await storageClient.acquireLock("publishing", 5);
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.message).equals("Unable to acquire lock publishing: duration must be between 15 and 60 seconds, or -1.");
+        });
+
+        it("Releases lease when lock holder can't be recorded", async () => {
+            let error: Error;
+
+            try {
+                await storageClient.acquireLock("unrecorded", -1, "x".repeat(20000));
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            const properties = await containerClient.getBlobClient("locking/.locks/unrecorded").getProperties();
+
+            expect(error?.message).contains("Unable to acquire lock unrecorded.");
+            expect(properties.leaseState).equals("available");
+        });
+
+        it("Leaves lock blobs out of listings and folder deletion", async () => {
+            const lock = await storageClient.acquireLock("listed", 15);
+            await storageClient.uploadBlob("pages/home.html", encoder.encode("<h1>Home</h1>"));
+
+            const folderPage = await storageClient.listBlobsPage("", { hierarchical: true });
+
+            expect(await storageClient.listBlobs()).to.deep.equal(["locking/pages/home.html"]);
+            expect((await storageClient.listBlobsPage()).blobs).to.deep.equal(["locking/pages/home.html"]);
+            expect(folderPage.folders).to.deep.equal(["locking/pages/"]);
+
+            const report = await storageClient.deleteBlobFolder("");
+
+            expect(report).to.deep.equal({ deleted: ["locking/pages/home.html"], failed: [] });
+            expect(await containerClient.getBlobClient("locking/.locks/listed").exists()).equals(true);
+
+            await storageClient.releaseLock(lock);
+        });
+    });
+
+    describe("Azure Blob Storage - retries and typed errors", async () => {
+        const proxy = new TransientFailureProxy();
+        let storageClient: ServerAzureBlobStorage;
+
+        before(async () => {
+            await proxy.start(azurite.blobEndpoint);
+
+            storageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageContainer: containerName,
+                blobStorageConnectionString: azurite.connectionString.replace(azurite.blobEndpoint, proxy.blobEndpoint),
+                blobStorageRetry: { maxTries: 3, retryDelayInMs: 10, backoff: "fixed" },
+                blobStorageTimeout: 30000
+            }), logger);
+        });
+
+        after(async () => {
+            await proxy.stop();
+        });
+
+        it("Retries transient failures", async () => {
+            proxy.failNextRequests(2);
+            const requestCount = proxy.requestUrls.length;
+
+            await storageClient.uploadBlob("retries/page.html", encoder.encode("<h1>Retried</h1>"));
+
+            expect(proxy.requestUrls.length - requestCount).equals(3);
+            expect(decoder.decode(await storageClient.downloadBlob("retries/page.html"))).equals("<h1>Retried</h1>");
+        });
+
+        it("Sends server timeout with every try", async () => {
+            await storageClient.getBlobProperties("retries/page.html");
+
+            expect(proxy.requestUrls[proxy.requestUrls.length - 1]).to.contain("timeout=30");
+        });
+
+        it("Throws throttling error when retries are exhausted", async () => {
+            proxy.failNextRequests(3);
+            let error: BlobThrottledError;
+
+            try {
+                await storageClient.downloadBlob("retries/page.html");
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error).to.be.instanceOf(BlobThrottledError);
+            expect(error.statusCode).equals(503);
+            expect(error.code).equals("ServerBusy");
+        });
+
+        it("Throws not found error", async () => {
+            let error: BlobNotFoundError;
+
+            try {
+                await storageClient.downloadBlob("retries/missing.html");
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error).to.be.instanceOf(BlobNotFoundError);
+            expect(error.blobKey).equals("retries/missing.html");
+            expect(error.statusCode).equals(404);
+        });
+
+        it("Throws access denied error", async () => {
+            const readOnlyStorageClient = new ServerAzureBlobStorage(new StaticSettingsProvider({
+                blobStorageUrl: azurite.getContainerSasUrl(containerName, "rl")
+            }), logger);
+
+            let error: BlobAccessDeniedError;
+
+            try {
+                await readOnlyStorageClient.uploadBlob("retries/denied.html", encoder.encode("denied"));
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error).to.be.instanceOf(BlobAccessDeniedError);
+            expect(error.statusCode).equals(403);
+        });
+    });
+
+    describe("Browser Azure Blob Storage - blobStorageUrl", async () => {
+        let storageClient: BrowserAzureBlobStorage;
+
+        before(() => {
+            const settingsProvider = new StaticSettingsProvider({
+                blobStorageUrl: azurite.getContainerSasUrl(containerName),
+                blobStorageBasePath: "browser"
+            });
+
+            storageClient = new BrowserAzureBlobStorage(settingsProvider, logger);
+        });
+
+        it("Uploads and lists blobs under base path", async () => {
+            await storageClient.uploadBlob("documents/note.md", encoder.encode("# Note"));
+
+            const properties = await containerClient.getBlobClient("browser/documents/note.md").getProperties();
+            expect(properties.contentType).equals("text/markdown");
+
+            const items = await storageClient.listBlobs("documents");
+            expect(items).to.have.members(["browser/documents/note.md"]);
+        });
+
+        it("Generates download URL", async () => {
+            const url = await storageClient.getDownloadUrl("documents/note.md");
+
+            const response = await fetch(url);
+            expect(await response.text()).equals("# Note");
+        });
+
+        it("Deletes blob", async () => {
+            await storageClient.deleteBlob("documents/note.md");
+
+            const items = await storageClient.listBlobs("documents");
+            expect(items).to.be.empty;
+        });
+
+        it("Uploads file in staged blocks reporting progress", async () => {
+            const content = createContent(5000);
+            const file = new File([content], "clip.mp4", { type: "video/mp4", lastModified: 1 });
+            const progress: number[] = [];
+
+            await storageClient.uploadFile("media/clip.mp4", file, {
+                blockSize: 1024,
+                concurrency: 2,
+                onProgress: (uploadProgress) => progress.push(uploadProgress.loadedBytes)
+            });
+
+            const blobClient = containerClient.getBlockBlobClient("browser/media/clip.mp4");
+            const blockList = await blobClient.getBlockList("committed");
+
+            expect(blockList.committedBlocks).to.have.length(5);
+            expect((await blobClient.getProperties()).contentType).equals("video/mp4");
+            expect(progress[0]).equals(0);
+            expect(progress[progress.length - 1]).equals(5000);
+            expect(new Uint8Array(await containerClient.getBlobClient("browser/media/clip.mp4").downloadToBuffer())).to.deep.equal(content);
+        });
+
+        it("Resumes cancelled upload from staged blocks", async () => {
+            const content = createContent(8192);
+            const file = new File([content], "movie.mp4", { type: "video/mp4", lastModified: 2 });
+            const abortController = new AbortController();
+            let error: Error;
+
+            try {
+                await storageClient.uploadFile("media/movie.mp4", file, {
+                    blockSize: 1024,
+                    concurrency: 1,
+                    abortSignal: abortController.signal,
+                    onProgress: (uploadProgress) => {
+                        if (uploadProgress.loadedBytes >= 3072) {
+                            abortController.abort();
+                        }
+                    }
+                });
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.name).equals("AbortError");
+
+            const blobClient = containerClient.getBlockBlobClient("browser/media/movie.mp4");
+            const stagedBlockCount = (await blobClient.getBlockList("uncommitted")).uncommittedBlocks.length;
+            const stageBlock = BlockBlobClient.prototype.stageBlock;
+            const progress: number[] = [];
+            let stagedBlockRequests = 0;
+
+            BlockBlobClient.prototype.stageBlock = function (...args) {
+                stagedBlockRequests += 1;
+                return stageBlock.apply(this, args);
+            };
+
+            try {
+                await storageClient.uploadFile("media/movie.mp4", file, {
+                    blockSize: 1024,
+                    onProgress: (uploadProgress) => progress.push(uploadProgress.loadedBytes)
+                });
+            }
+            finally {
+                BlockBlobClient.prototype.stageBlock = stageBlock;
+            }
+
+            expect(stagedBlockCount).to.be.within(2, 4);
+            expect(stagedBlockRequests).equals(8 - stagedBlockCount);
+            expect(progress[progress.length - 1]).equals(8192);
+            expect(new Uint8Array(await containerClient.getBlobClient("browser/media/movie.mp4").downloadToBuffer())).to.deep.equal(content);
+        });
+
+        it("Doesn't read blocks of cancelled upload", async () => {
+            const abortController = new AbortController();
+            const progress: number[] = [];
+            let error: Error;
+
+            abortController.abort();
+
+            try {
+                await storageClient.uploadFile("media/trailer.mp4", new Blob([createContent(4096)]), {
+                    blockSize: 1024,
+                    abortSignal: abortController.signal,
+                    onProgress: (uploadProgress) => progress.push(uploadProgress.loadedBytes)
+                });
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.name).equals("AbortError");
+            expect(progress).to.deep.equal([0]);
+            expect(await storageClient.listBlobs("media/trailer")).to.be.empty;
+        });
+
+        it("Doesn't reuse blocks of different content with the same size", async () => {
+            const previousContent = createContent(3000);
+            const content = previousContent.map(byte => byte ^ 0xff);
+
+            await storageClient.uploadFile("media/poster.png", new Blob([previousContent]), { blockSize: 1024 });
+            await storageClient.uploadFile("media/poster.png", new Blob([content]), { blockSize: 1024 });
+
+            expect(new Uint8Array(await containerClient.getBlobClient("browser/media/poster.png").downloadToBuffer())).to.deep.equal(content);
+
+            const file = new File([previousContent], "poster.png", { lastModified: 3 });
+            await storageClient.uploadFile("media/poster.png", file, { blockSize: 1024 });
+
+            expect(new Uint8Array(await containerClient.getBlobClient("browser/media/poster.png").downloadToBuffer())).to.deep.equal(previousContent);
+        });
+
+        it("Streams blob range with fetch", async () => {
+            const content = createContent(100);
+            await storageClient.uploadBlob("media/audio.mp3", content);
 
-            const itemsAfterDelete = await container.listBlobs("202009171944");
-            expect(itemsAfterDelete.length).lessThan(items.length);
+            const download = await storageClient.downloadBlobStream("media/audio.mp3", { offset: 50 });
+            expect(download.statusCode).equals(206);
+            expect(download.contentRange).equals("bytes 50-99/100");
+            expect(new Uint8Array(await new Response(download.stream).arrayBuffer())).to.deep.equal(content.slice(50));
 
-            // await container.deleteBlobFolder("202009171944");
-            // const empty = await container.listBlobs("202009171944");
-            // expect(empty.length === 0);
+            const notModifiedDownload = await storageClient.downloadBlobStream("media/audio.mp3", { ifNoneMatch: download.etag });
+            expect(notModifiedDownload.statusCode).equals(304);
+            expect(notModifiedDownload.stream).equals(null);
         });
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,151 @@
+import * as crypto from "crypto";
+import { expect } from "chai";
+import { describe, it, before, after, beforeEach } from "mocha";
+import { Readable } from "stream";
+import { Bag } from "@paperbits/common";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { ServerAzureBlobStorage } from "../src/persistence/azureBlobStorage.server";
+import { BrowserAzureBlobStorage } from "../src/persistence/azureBlobStorage.browser";
+import { BlobThrottledError } from "../src/persistence/blobThrottledError";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+import { AzuriteHost } from "./azuriteHost";
+import { TransientFailureProxy } from "./transientFailureProxy";
+
+const encoder = new TextEncoder();
+
+/**
+ * Records dependencies instead of sending them anywhere.
+ */
+class RecordingLogger extends ConsoleLogger {
+    public readonly dependencies: { name: string, properties: Bag<string> }[] = [];
+
+    public override async trackDependency(name: string, properties?: Bag<string>): Promise<void> {
+        this.dependencies.push({ name: name, properties: properties });
+    }
+}
+
+describe("Azure Blob Storage - telemetry", async () => {
+    const azurite = new AzuriteHost();
+    const proxy = new TransientFailureProxy();
+    const containerName = "telemetry";
+    let logger: RecordingLogger;
+    let connectionString: string;
+
+    before(async () => {
+        await azurite.start();
+        await proxy.start(azurite.blobEndpoint);
+        await azurite.getServiceClient().getContainerClient(containerName).createIfNotExists();
+
+        connectionString = azurite.connectionString.replace(azurite.blobEndpoint, proxy.blobEndpoint);
+    });
+
+    after(async () => {
+        await proxy.stop();
+        await azurite.stop();
+    });
+
+    beforeEach(() => {
+        logger = new RecordingLogger();
+    });
+
+    const createStorageClient = (settings: Object = {}) => new ServerAzureBlobStorage(new StaticSettingsProvider({
+        blobStorageContainer: containerName,
+        blobStorageConnectionString: connectionString,
+        blobStorageRetry: { maxTries: 3, retryDelayInMs: 10, backoff: "fixed" },
+        ...settings
+    }), logger);
+
+    it("Reports upload, download, listing and deletion of blobs", async () => {
+        const storageClient = createStorageClient();
+        const target = `${new URL(proxy.blobEndpoint).host}${new URL(proxy.blobEndpoint).pathname}/${containerName}`;
+
+        await storageClient.uploadBlob("pages/home.html", encoder.encode("<h1>Home</h1>"));
+        await storageClient.downloadBlob("pages/home.html");
+        await storageClient.listBlobs("pages");
+        await storageClient.deleteBlob("pages/home.html");
+        await storageClient.deleteBlob("pages/home.html");
+
+        expect(logger.dependencies.map(dependency => dependency.name)).to.deep.equal(["uploadBlob", "downloadBlob", "listBlobs", "deleteBlob", "deleteBlob"]);
+
+        for (const dependency of logger.dependencies) {
+            expect(dependency.properties.type).equals("Azure blob");
+            expect(dependency.properties.target).equals(target);
+            expect(+dependency.properties.duration).to.be.at.least(0);
+            expect(dependency.properties.success).equals("true");
+            expect(dependency.properties.retryCount).equals("0");
+        }
+
+        const [upload, download, listing, deletion, repeatedDeletion] = logger.dependencies.map(dependency => dependency.properties);
+
+        expect(upload).to.include({ key: "pages/home.html", size: "13", resultCode: "201" });
+        expect(download).to.include({ key: "pages/home.html", size: "13", resultCode: "200" });
+        expect(listing).to.include({ key: "pages", blobCount: "1", resultCode: "200" });
+        expect(deletion).to.include({ key: "pages/home.html", resultCode: "202" });
+        expect(repeatedDeletion).to.include({ key: "pages/home.html", resultCode: "404" });
+    });
+
+    it("Reports retries of transient failures", async () => {
+        const storageClient = createStorageClient();
+
+        proxy.failNextRequests(2);
+        await storageClient.uploadBlob("retries/page.html", encoder.encode("<h1>Retried</h1>"));
+
+        proxy.failNextRequests(3);
+        let error: Error;
+
+        try {
+            await storageClient.downloadBlob("retries/page.html");
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error).to.be.instanceOf(BlobThrottledError);
+        expect(logger.dependencies[0].properties).to.include({ success: "true", resultCode: "201", retryCount: "2" });
+        expect(logger.dependencies[1].properties).to.include({ success: "false", resultCode: "503", retryCount: "2" });
+    });
+
+    it("Reports batch deletion, streamed upload and SAS generation", async () => {
+        const storageClient = createStorageClient();
+
+        await storageClient.uploadStreamToBlob("batch/page.html", Readable.from([Buffer.from("<h1>Page</h1>")]));
+        await storageClient.uploadBlob("batch/image.png", new Uint8Array(100));
+        await storageClient.getDownloadUrl("batch/page.html");
+
+        const report = await storageClient.deleteBlobFolder("batch");
+        const [streamedUpload, upload, sasGeneration, batchDeletion] = logger.dependencies;
+
+        expect(report.failed).to.be.empty;
+        expect(logger.dependencies.map(dependency => dependency.name)).to.deep.equal(["uploadStreamToBlob", "uploadBlob", "generateSasToken", "deleteBlobBatch"]);
+        expect(streamedUpload.properties).to.include({ key: "batch/page.html", size: "13", resultCode: "201" });
+        expect(upload.properties).to.include({ key: "batch/image.png", size: "100" });
+        expect(sasGeneration.properties).to.include({ key: "batch/page.html", success: "true" });
+        expect(batchDeletion.properties).to.include({ key: "batch/image.png", blobCount: "2", success: "true", resultCode: "202" });
+    });
+
+    it("Redacts keys and can be disabled", async () => {
+        const redactingClient = createStorageClient({ blobStorageTelemetry: { redactKeys: true } });
+        const silentClient = createStorageClient({ blobStorageTelemetry: { enabled: false } });
+        const keyHash = crypto.createHash("sha256").update("private/salary.xlsx").digest("base64");
+
+        await redactingClient.uploadBlob("private/salary.xlsx", new Uint8Array(10));
+        await silentClient.uploadBlob("private/salary.xlsx", new Uint8Array(10));
+
+        expect(logger.dependencies).to.have.length(1);
+        expect(logger.dependencies[0].properties.key).equals(`sha256:${keyHash}`);
+    });
+
+    it("Reports operations of browser client without retry count", async () => {
+        const storageClient = new BrowserAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageUrl: azurite.getContainerSasUrl(containerName)
+        }), logger);
+
+        await storageClient.uploadBlob("browser/note.md", encoder.encode("# Note"));
+
+        expect(logger.dependencies).to.have.length(1);
+        expect(logger.dependencies[0].name).equals("uploadBlob");
+        expect(logger.dependencies[0].properties).to.include({ key: "browser/note.md", size: "6", resultCode: "201", success: "true" });
+        expect(logger.dependencies[0].properties.target).not.contains("?");
+        expect(logger.dependencies[0].properties).not.to.have.property("retryCount");
+    });
+});
@@ -0,0 +1,261 @@
+import { expect } from "chai";
+import { describe, it, before, after } from "mocha";
+import { TableClient } from "@azure/data-tables";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { Operator, Query } from "@paperbits/common/persistence";
+import { AzureTableObjectStorage } from "../src/persistence/azureTableObjectStorage";
+import { InMemoryAzureBlobStorage } from "../src/persistence/azureBlobStorage.inMemory";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+import { AzuriteHost } from "./azuriteHost";
+
+interface PageContract {
+    key: string;
+    title: string;
+    tags?: string[];
+    published?: boolean;
+    content?: string;
+}
+
+describe("Azure Table Object Storage", async () => {
+    const logger = new ConsoleLogger();
+    const azurite = new AzuriteHost(false, false, "table");
+    let tableIndex = 0;
+
+    before(async () => {
+        await azurite.start();
+    });
+
+    after(async () => {
+        await azurite.stop();
+    });
+
+    const createStorage = async (settings: Object = {}, blobStorage?: InMemoryAzureBlobStorage) => {
+        tableIndex += 1;
+
+        const storage = new AzureTableObjectStorage(new StaticSettingsProvider({
+            tableStorageConnectionString: azurite.connectionString,
+            tableStorageTableName: `objects${tableIndex}`,
+            ...settings
+        }), logger, blobStorage);
+
+        await storage.createTable();
+
+        return storage;
+    };
+
+    it("Adds, updates, gets and deletes objects by path", async () => {
+        const storage = await createStorage();
+
+        await storage.addObject("pages/home", { key: "pages/home", title: "Home" });
+        await storage.addObject("/pages/about/", { key: "pages/about", title: "About" });
+        await storage.addObject("locales/en-us/pages/home", { key: "locales/en-us/pages/home", title: "Home (en-us)" });
+        await storage.updateObject("pages/home", { key: "pages/home", title: "Welcome" });
+
+        expect(await storage.getObject("pages/home")).to.deep.equal({ key: "pages/home", title: "Welcome" });
+        expect(await storage.getObject("locales/en-us/pages/home")).to.deep.equal({ key: "locales/en-us/pages/home", title: "Home (en-us)" });
+        expect(await storage.getObject("pages")).to.deep.equal({
+            about: { key: "pages/about", title: "About" },
+            home: { key: "pages/home", title: "Welcome" }
+        });
+
+        await storage.deleteObject("pages/home");
+
+        expect(await storage.getObject("pages/home")).to.be.null;
+        expect(Object.keys(await storage.getObject("pages"))).to.deep.equal(["about"]);
+
+        await storage.deleteObject("pages");
+        await storage.deleteObject("pages");
+
+        expect(await storage.getObject("pages")).to.be.null;
+        expect(await storage.getObject("locales/en-us/pages/home")).to.exist;
+    });
+
+    it("Treats paths as nodes of a single tree", async () => {
+        const storage = await createStorage();
+
+        await storage.addObject("locales/en-us/pages/home", { title: "Home" });
+        await storage.addObject("locales/en-us/pages/about", { title: "About" });
+        await storage.addObject("locales/de-de/pages/home", { title: "Startseite" });
+
+        expect(await storage.getObject("locales")).to.deep.equal({
+            "en-us": { pages: { home: { title: "Home" }, about: { title: "About" } } },
+            "de-de": { pages: { home: { title: "Startseite" } } }
+        });
+        expect(await storage.getObject("locales/en-us/pages/home/title")).equals("Home");
+
+        await storage.deleteObject("locales/en-us");
+
+        expect(await storage.getObject("locales/en-us/pages/home")).to.be.null;
+        expect(await storage.getObject("locales")).to.deep.equal({ "de-de": { pages: { home: { title: "Startseite" } } } });
+
+        await storage.addObject("styles", { colors: { primary: { value: "#000" } }, fonts: {} });
+        await storage.updateObject("styles/colors/primary", { value: "#fff" });
+        await storage.updateObject("styles/colors/secondary", { value: "#ccc" });
+        await storage.deleteObject("styles/fonts");
+
+        expect(await storage.getObject("styles")).to.deep.equal({ colors: { primary: { value: "#fff" }, secondary: { value: "#ccc" } } });
+        expect(await storage.getObject("styles/colors/primary")).to.deep.equal({ value: "#fff" });
+
+        await storage.updateObject("locales", { "fr-fr": { pages: {} } });
+
+        expect(await storage.getObject("locales")).to.deep.equal({ "fr-fr": { pages: {} } });
+        expect(await storage.getObject("locales/de-de/pages/home")).to.be.null;
+    });
+
+    it("Saves changes of offline object storage", async () => {
+        const storage = await createStorage();
+
+        await storage.addObject("pages/home", { key: "pages/home", title: "Home" });
+        await storage.addObject("pages/about", { key: "pages/about", title: "About" });
+        await storage.addObject("settings", { site: { title: "Contoso" } });
+
+        await storage.saveChanges({
+            pages: {
+                about: null,
+                contacts: { key: "pages/contacts", title: "Contacts" }
+            },
+            settings: {
+                integration: { appInsights: { connectionString: "InstrumentationKey=..." } }
+            }
+        });
+
+        expect(await storage.loadData()).to.deep.equal({
+            pages: {
+                home: { key: "pages/home", title: "Home" },
+                contacts: { key: "pages/contacts", title: "Contacts" }
+            },
+            settings: {
+                site: { title: "Contoso" },
+                integration: { appInsights: { connectionString: "InstrumentationKey=..." } }
+            }
+        });
+    });
+
+    it("Searches objects with filters, ordering and paging", async () => {
+        const storage = await createStorage();
+
+        for (let index = 0; index < 35; index += 1) {
+            const id = `${index}`.padStart(2, "0");
+
+            await storage.addObject<PageContract>(`pages/${id}`, {
+                key: `pages/${id}`,
+                title: index % 2 === 0 ? `Even page ${id}` : `Odd page ${id}`,
+                tags: index % 5 === 0 ? ["featured"] : [],
+                published: index < 10
+            });
+        }
+
+        const firstPage = await storage.searchObjects<PageContract>("pages", Query.from<PageContract>().orderByDesc("title"));
+        const secondPage = await firstPage.takeNext();
+
+        expect(firstPage.value).to.have.length(30);
+        expect(firstPage.value[0].title).equals("Odd page 33");
+        expect(secondPage.value.map(page => page.key)).to.deep.equal(["pages/08", "pages/06", "pages/04", "pages/02", "pages/00"]);
+        expect(secondPage.takeNext).to.be.null;
+
+        const evenPages = await storage.searchObjects<PageContract>("pages", Query.from<PageContract>()
+            .where("title", Operator.contains, "even")
+            .where("published", Operator.equals, true)
+            .orderBy("title"));
+
+        expect(evenPages.value.map(page => page.key)).to.deep.equal(["pages/00", "pages/02", "pages/04", "pages/06", "pages/08"]);
+
+        const featuredPages = await storage.searchObjects<PageContract>("pages", Query.from<PageContract>()
+            .where("tags", Operator.contains, ["featured"])
+            .where("title", Operator.notEmpty)
+            .orderBy("key"));
+
+        expect(featuredPages.value.map(page => page.key)).to.deep.equal(["pages/00", "pages/05", "pages/10", "pages/15", "pages/20", "pages/25", "pages/30"]);
+        expect((await storage.searchObjects("layouts")).value).to.be.empty;
+    });
+
+    it("Splits large object across entity properties", async () => {
+        const storage = await createStorage({ tableStorageTableName: "largeobjects" });
+        const page: PageContract = { key: "pages/long", title: "Long", content: "x".repeat(100 * 1024) };
+
+        await storage.addObject("pages/long", page);
+
+        const tableClient = TableClient.fromConnectionString(azurite.connectionString, "largeobjects", { allowInsecureConnection: true });
+        const entity = await tableClient.getEntity("pages", "long");
+
+        expect(entity.dataProperties).equals(4);
+        expect(await storage.getObject("pages/long")).to.deep.equal(page);
+    });
+
+    it("Keeps surrogate pairs intact when splitting object", async () => {
+        const storage = await createStorage({ tableStorageTableName: "emojiobjects" });
+        const prefix = `{"key":"pages/emoji","title":"Emoji","content":"`;
+        const page: PageContract = { key: "pages/emoji", title: "Emoji", content: "x".repeat(32 * 1024 - prefix.length - 1) + "\u{1F600}".repeat(1000) };
+
+        await storage.addObject("pages/emoji", page);
+
+        const tableClient = TableClient.fromConnectionString(azurite.connectionString, "emojiobjects", { allowInsecureConnection: true });
+        const entity = await tableClient.getEntity("pages", "emoji");
+
+        expect(entity.dataProperties).equals(2);
+        expect(entity.data0).to.have.length(32 * 1024 - 1);
+        expect(await storage.getObject("pages/emoji")).to.deep.equal(page);
+    });
+
+    it("Keeps object exceeding entity size in blob storage", async () => {
+        const blobStorage = new InMemoryAzureBlobStorage(new StaticSettingsProvider({}), logger);
+        const storage = await createStorage({}, blobStorage);
+        const page: PageContract = { key: "pages/huge", title: "Huge", content: "x".repeat(1024 * 1024) };
+
+        await storage.addObject("pages/huge", page);
+
+        expect(await blobStorage.listBlobs()).to.deep.equal(["objects/pages/huge.json"]);
+        expect(await storage.getObject("pages/huge")).to.deep.equal(page);
+        expect((await storage.searchObjects<PageContract>("pages")).value[0].content).to.have.length(1024 * 1024);
+
+        await storage.updateObject("pages/huge", { key: "pages/huge", title: "Small" });
+
+        expect(await blobStorage.listBlobs()).to.be.empty;
+
+        await storage.updateObject("pages/huge", page);
+        await storage.deleteObject("pages/huge");
+
+        expect(await blobStorage.listBlobs()).to.be.empty;
+    });
+
+    it("Refuses object exceeding entity size without blob storage", async () => {
+        const storage = await createStorage();
+        let error: Error;
+
+        try {
+            await storage.addObject("pages/huge", { content: "x".repeat(1024 * 1024) });
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).equals("Unable to update object pages/huge: it exceeds maximum size of table entity and no blob storage configured.");
+    });
+
+    it("Uses table SAS URL", async () => {
+        await createStorage({ tableStorageTableName: "shared" });
+
+        const storage = new AzureTableObjectStorage(new StaticSettingsProvider({
+            tableStorageUrl: azurite.getTableSasUrl("shared"),
+            tableStorageTableName: "shared"
+        }), logger);
+
+        await storage.addObject("styles", { colors: {} });
+
+        expect(await storage.getObject("styles")).to.deep.equal({ colors: {} });
+    });
+
+    it("Requires table name setting", async () => {
+        const storage = new AzureTableObjectStorage(new StaticSettingsProvider({ tableStorageConnectionString: azurite.connectionString }), logger);
+        let error: Error;
+
+        try {
+            await storage.getObject("pages/home");
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).equals(`Setting "tableStorageTableName" required to initialize AzureTableObjectStorage.`);
+    });
+});
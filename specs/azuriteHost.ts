@@ -0,0 +1,187 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ChildProcess, spawn } from "child_process";
+import { AddressInfo, createServer } from "net";
+import { AzureNamedKeyCredential, generateTableSas, TableSasPermissions } from "@azure/data-tables";
+import {
+    BlobServiceClient,
+    ContainerSASPermissions,
+    generateBlobSASQueryParameters,
+    StorageSharedKeyCredential
+} from "@azure/storage-blob";
+import { createSelfSignedCertificate, SelfSignedCertificate } from "./selfSignedCertificate";
+
+/**
+ * Well-known development storage account served by Azurite.
+ */
+export const azuriteAccountName = "devstoreaccount1";
+export const azuriteAccountKey = "Eby8vdM02xNOcqFlqUwJPLlmEtlCDXJ1OUzFT50uSRZ6IFsuFq2UVErCz4I6tq/K1SZFPTOtr/KBHBeksoGMGw==";
+
+/**
+ * Storage service emulated by Azurite.
+ */
+export type AzuriteService = "blob" | "table" | "queue";
+
+/**
+ * Runs in-memory Azurite service emulator (blob service by default) for the duration of a spec.
+ */
+export class AzuriteHost {
+    private azuriteProcess: ChildProcess;
+    private port: number;
+    private certificateDirectory: string;
+
+    /**
+     * Self-signed certificate of HTTPS endpoint, generated on start.
+     */
+    public certificate: SelfSignedCertificate;
+
+    /**
+     * @param secure {boolean} Serves HTTPS with self-signed certificate generated on start and accepts Azure AD bearer tokens,
+     * which are validated for issuer, audience and lifetime only. Clients have to trust the certificate,
+     * e.g. with NODE_TLS_REJECT_UNAUTHORIZED=0.
+     * @param loose {boolean} Ignores unsupported headers (e.g. of customer-provided keys) instead of failing requests.
+     * @param service {AzuriteService} Emulated storage service.
+     */
+    constructor(
+        private readonly secure: boolean = false,
+        private readonly loose: boolean = false,
+        private readonly service: AzuriteService = "blob"
+    ) { }
+
+    public async start(): Promise<void> {
+        this.port = await this.getFreePort();
+
+        const azuriteEntryPoint = path.join(path.dirname(require.resolve("azurite/package.json")), "dist", "src", this.service, "main.js");
+        const azuriteArgs = [
+            azuriteEntryPoint,
+            `--${this.service}Host`, "127.0.0.1",
+            `--${this.service}Port`, `${this.port}`,
+            "--inMemoryPersistence",
+            "--skipApiVersionCheck",
+            "--disableTelemetry"
+        ];
+
+        if (this.secure) {
+            this.certificate = createSelfSignedCertificate();
+            this.certificateDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "azurite-"));
+
+            const certPath = path.join(this.certificateDirectory, "cert.pem");
+            const keyPath = path.join(this.certificateDirectory, "key.pem");
+
+            fs.writeFileSync(certPath, this.certificate.cert);
+            fs.writeFileSync(keyPath, this.certificate.key, { mode: 0o600 });
+
+            azuriteArgs.push("--cert", certPath, "--key", keyPath, "--oauth", "basic");
+        }
+
+        if (this.loose) {
+            azuriteArgs.push("--loose");
+        }
+
+        this.azuriteProcess = spawn(process.execPath, azuriteArgs, { stdio: ["ignore", "pipe", "pipe"] });
+
+        await new Promise<void>((resolve, reject) => {
+            let output = "";
+
+            const onData = (data: Buffer) => {
+                output += data.toString();
+
+                if (/successfully (listens|started)/.test(output)) {
+                    this.azuriteProcess.stdout.off("data", onData);
+                    resolve();
+                }
+            };
+
+            this.azuriteProcess.stdout.on("data", onData);
+            this.azuriteProcess.stderr.on("data", (data: Buffer) => output += data.toString());
+            this.azuriteProcess.once("error", reject);
+            this.azuriteProcess.once("exit", (code) => reject(new Error(`Azurite exited with code ${code}. ${output}`)));
+        });
+
+        this.azuriteProcess.stdout.resume();
+    }
+
+    public async stop(): Promise<void> {
+        if (this.azuriteProcess && this.azuriteProcess.exitCode === null) {
+            await new Promise<void>((resolve) => {
+                this.azuriteProcess.once("exit", () => resolve());
+                this.azuriteProcess.kill();
+            });
+        }
+
+        if (this.certificateDirectory) {
+            fs.rmSync(this.certificateDirectory, { recursive: true, force: true });
+            this.certificateDirectory = null;
+        }
+    }
+
+    public get endpoint(): string {
+        return `${this.secure ? "https" : "http"}://127.0.0.1:${this.port}/${azuriteAccountName}`;
+    }
+
+    public get blobEndpoint(): string {
+        return this.endpoint;
+    }
+
+    public get connectionString(): string {
+        const endpointName = `${this.service.charAt(0).toUpperCase()}${this.service.substring(1)}Endpoint`;
+        return `DefaultEndpointsProtocol=${this.secure ? "https" : "http"};AccountName=${azuriteAccountName};AccountKey=${azuriteAccountKey};${endpointName}=${this.endpoint};`;
+    }
+
+    public getServiceClient(): BlobServiceClient {
+        return BlobServiceClient.fromConnectionString(this.connectionString);
+    }
+
+    /**
+     * Returns container URL with SAS token, i.e. the value expected in "blobStorageUrl" setting.
+     * @param containerName {string} Name of storage container.
+     * @param permissions {string} SAS permissions, e.g. "racwdl".
+     */
+    public getContainerSasUrl(containerName: string, permissions: string = "racwdl"): string {
+        const credential = new StorageSharedKeyCredential(azuriteAccountName, azuriteAccountKey);
+        const startsOn = new Date();
+        startsOn.setMinutes(startsOn.getMinutes() - 5);
+
+        const expiresOn = new Date();
+        expiresOn.setHours(expiresOn.getHours() + 1);
+
+        const sasToken = generateBlobSASQueryParameters({
+            containerName: containerName,
+            permissions: ContainerSASPermissions.parse(permissions),
+            startsOn: startsOn,
+            expiresOn: expiresOn
+        }, credential).toString();
+
+        return `${this.blobEndpoint}/${containerName}?${sasToken}`;
+    }
+
+    /**
+     * Returns table service URL with SAS token, i.e. the value expected in "tableStorageUrl" setting.
+     * @param tableName {string} Name of the table.
+     * @param permissions {TableSasPermissions} SAS permissions.
+     */
+    public getTableSasUrl(tableName: string, permissions: TableSasPermissions = { query: true, add: true, update: true, delete: true }): string {
+        const credential = new AzureNamedKeyCredential(azuriteAccountName, azuriteAccountKey);
+        const expiresOn = new Date();
+        expiresOn.setHours(expiresOn.getHours() + 1);
+
+        const sasToken = generateTableSas(tableName, credential, {
+            permissions: permissions,
+            expiresOn: expiresOn
+        });
+
+        return `${this.endpoint}?${sasToken}`;
+    }
+
+    private getFreePort(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const server = createServer();
+            server.once("error", reject);
+            server.listen(0, "127.0.0.1", () => {
+                const port = (<AddressInfo>server.address()).port;
+                server.close(() => resolve(port));
+            });
+        });
+    }
+}
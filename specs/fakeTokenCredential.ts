@@ -0,0 +1,35 @@
+import { AccessToken, TokenCredential } from "@azure/identity";
+
+/**
+ * Issues unsigned Azure AD-like tokens for storage audience, accepted by Azurite running with "--oauth basic".
+ */
+export class FakeTokenCredential implements TokenCredential {
+    public readonly requestedScopes: string[] = [];
+
+    public async getToken(scopes: string | string[]): Promise<AccessToken> {
+        this.requestedScopes.push(...[].concat(scopes));
+
+        const issuedOn = Math.floor(Date.now() / 1000) - 60;
+        const expiresOn = issuedOn + 3600;
+
+        const header = { alg: "none", typ: "JWT" };
+        const payload = {
+            aud: "https://storage.azure.com",
+            iss: "https://sts.windows.net/00000000-0000-0000-0000-000000000000/",
+            oid: "11111111-1111-1111-1111-111111111111",
+            tid: "00000000-0000-0000-0000-000000000000",
+            iat: issuedOn,
+            nbf: issuedOn,
+            exp: expiresOn
+        };
+
+        return {
+            token: `${this.encode(header)}.${this.encode(payload)}.`,
+            expiresOnTimestamp: expiresOn * 1000
+        };
+    }
+
+    private encode(value: object): string {
+        return Buffer.from(JSON.stringify(value)).toString("base64url");
+    }
+}
@@ -0,0 +1,282 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { describe, it, before, after } from "mocha";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { AzureBlobStorage } from "../src/persistence/azureBlobStorage";
+import { InMemoryAzureBlobStorage } from "../src/persistence/azureBlobStorage.inMemory";
+import { FileSystemAzureBlobStorage } from "../src/persistence/azureBlobStorage.fileSystem";
+import { BlobConflictError } from "../src/persistence/blobConflictError";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function describeBlobStorage(name: string, createStorage: (settings: Object) => AzureBlobStorage): void {
+    describe(name, async () => {
+        it("Uploads and downloads blob", async () => {
+            const storage = createStorage({});
+            await storage.uploadBlob("/pages//home.json", encoder.encode("{}"));
+
+            const content = await storage.downloadBlob("pages/home.json");
+            expect(decoder.decode(content)).equals("{}");
+        });
+
+        it("Lists blobs by prefix including base path", async () => {
+            const storage = createStorage({ blobStorageBasePath: "\\tenant1\\" });
+            await storage.uploadBlob("media/a.png", encoder.encode("a"));
+            await storage.uploadBlob("media/b.png", encoder.encode("b"));
+            await storage.uploadBlob("mediaX/c.png", encoder.encode("c"));
+            await storage.uploadBlob("pages/home.json", encoder.encode("{}"));
+
+            expect(await storage.listBlobs("media")).to.deep.equal(["tenant1/media/a.png", "tenant1/media/b.png", "tenant1/mediaX/c.png"]);
+            expect(await storage.listBlobs("media/a")).to.deep.equal(["tenant1/media/a.png"]);
+            expect(await storage.listBlobs()).to.have.length(4);
+        });
+
+        it("Downloads blob range", async () => {
+            const storage = createStorage({});
+            await storage.uploadBlob("media/video.mp4", encoder.encode("0123456789"));
+
+            expect(decoder.decode(await storage.downloadBlobRange("media/video.mp4", 2, 3))).equals("234");
+            expect(decoder.decode(await storage.downloadBlobRange("media/video.mp4", 7))).equals("789");
+            expect(decoder.decode(await storage.downloadBlobRange("media/video.mp4", 8, 100))).equals("89");
+
+            let error;
+
+            try {
+                await storage.downloadBlobRange("media/video.mp4", 10);
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.statusCode).equals(416);
+        });
+
+        it("Fails to download missing blob with 404", async () => {
+            const storage = createStorage({});
+            let error;
+
+            try {
+                await storage.downloadBlob("missing.txt");
+            }
+            catch (exception) {
+                error = exception;
+            }
+
+            expect(error?.statusCode).equals(404);
+        });
+
+        it("Tolerates deletion of missing blob", async () => {
+            const storage = createStorage({});
+            await storage.uploadBlob("file.txt", encoder.encode("text"));
+
+            await storage.deleteBlob("file.txt");
+            await storage.deleteBlob("file.txt");
+
+            expect(await storage.listBlobs()).to.be.empty;
+        });
+
+        it("Deletes blob folder", async () => {
+            const storage = createStorage({ blobStorageBasePath: "tenant1" });
+            await storage.uploadBlob("folder/a.txt", encoder.encode("a"));
+            await storage.uploadBlob("folder/nested/b.txt", encoder.encode("b"));
+            await storage.uploadBlob("other/c.txt", encoder.encode("c"));
+
+            await storage.deleteBlobFolder("folder");
+
+            expect(await storage.listBlobs()).to.deep.equal(["tenant1/other/c.txt"]);
+        });
+
+        it("Lists blobs page by page and folder by folder", async () => {
+            const storage = createStorage({ blobStorageBasePath: "tenant1" });
+
+            for (const key of ["a.txt", "folder1/b.txt", "folder1/c.txt", "folder2/d.txt"]) {
+                await storage.uploadBlob(key, encoder.encode(key));
+            }
+
+            const firstPage = await storage.listBlobsPage("", { pageSize: 3 });
+            const secondPage = await storage.listBlobsPage("", { pageSize: 3, continuationToken: firstPage.continuationToken });
+
+            expect(firstPage.blobs).to.deep.equal(["tenant1/a.txt", "tenant1/folder1/b.txt", "tenant1/folder1/c.txt"]);
+            expect(secondPage.blobs).to.deep.equal(["tenant1/folder2/d.txt"]);
+            expect(secondPage.continuationToken).equals(null);
+
+            const rootPage = await storage.listBlobsPage("", { hierarchical: true, pageSize: 2 });
+            const nextRootPage = await storage.listBlobsPage("", { hierarchical: true, pageSize: 2, continuationToken: rootPage.continuationToken });
+
+            expect(rootPage.blobs).to.deep.equal(["tenant1/a.txt"]);
+            expect(rootPage.folders).to.deep.equal(["tenant1/folder1/"]);
+            expect(nextRootPage.folders).to.deep.equal(["tenant1/folder2/"]);
+            expect(nextRootPage.continuationToken).equals(null);
+
+            const folderPage = await storage.listBlobsPage("folder1", { hierarchical: true });
+            expect(folderPage.blobs).to.deep.equal(["tenant1/folder1/b.txt", "tenant1/folder1/c.txt"]);
+        });
+
+        it("Checks ETag conditions", async () => {
+            const storage = createStorage({});
+            await storage.uploadBlob("page.json", encoder.encode("1"), null, { ifNoneMatch: "*" });
+            const staleBlob = await storage.downloadBlobWithETag("page.json");
+
+            await storage.uploadBlob("page.json", encoder.encode("22"), null, { ifMatch: staleBlob.etag });
+            const freshBlob = await storage.downloadBlobWithETag("page.json");
+
+            const errors = [];
+            const attempts = [
+                () => storage.uploadBlob("page.json", encoder.encode("333"), null, { ifNoneMatch: "*" }),
+                () => storage.uploadBlob("page.json", encoder.encode("333"), null, { ifMatch: staleBlob.etag }),
+                () => storage.deleteBlob("page.json", { ifMatch: staleBlob.etag })
+            ];
+
+            for (const attempt of attempts) {
+                try {
+                    await attempt();
+                }
+                catch (error) {
+                    errors.push(error);
+                }
+            }
+
+            expect(errors.map(error => error instanceof BlobConflictError && error.statusCode)).to.deep.equal([409, 412, 412]);
+
+            await storage.deleteBlob("page.json", { ifMatch: freshBlob.etag });
+            expect(await storage.listBlobs()).to.be.empty;
+        });
+    });
+}
+
+describe("In-memory Azure Blob Storage", async () => {
+    const logger = new ConsoleLogger();
+
+    describeBlobStorage("InMemoryAzureBlobStorage", (settings) => new InMemoryAzureBlobStorage(new StaticSettingsProvider(settings), logger));
+
+    it("Infers content type", async () => {
+        const storage = new InMemoryAzureBlobStorage(new StaticSettingsProvider({}), logger);
+        await storage.uploadBlob("styles/theme.css", encoder.encode("body {}"));
+        await storage.uploadBlob("data/blob", encoder.encode("{}"), "application/json");
+        await storage.uploadBlob("data/unknown", encoder.encode("?"));
+
+        expect((await storage.getBlobProperties("styles/theme.css")).contentType).equals("text/css");
+        expect((await storage.getBlobProperties("data/blob")).contentType).equals("application/json");
+        expect((await storage.getBlobProperties("data/unknown")).contentType).equals("application/octet-stream");
+        expect(await storage.getDownloadUrl("styles/theme.css")).equals("data:text/css;base64,Ym9keSB7fQ==");
+    });
+
+    it("Keeps metadata and tags", async () => {
+        const storage = new InMemoryAzureBlobStorage(new StaticSettingsProvider({}), logger);
+        await storage.uploadBlob("images/logo.png", encoder.encode("logo"), null, { metadata: { author: "jane" } });
+        expect((await storage.getBlobProperties("images/logo.png")).metadata).to.deep.equal({ author: "jane" });
+
+        await storage.setBlobMetadata("images/logo.png", { owner: "john" });
+        await storage.setBlobTags("images/logo.png", { kind: "media" });
+
+        const [properties] = await storage.listBlobProperties("images");
+
+        expect(properties.size).equals(4);
+        expect(properties.metadata).to.deep.equal({ owner: "john" });
+        expect(await storage.getBlobTags("images/logo.png")).to.deep.equal({ kind: "media" });
+    });
+
+    it("Finds blobs by tags", async () => {
+        const storage = new InMemoryAzureBlobStorage(new StaticSettingsProvider({ blobStorageBasePath: "library" }), logger);
+        await storage.uploadBlob("images/logo.png", encoder.encode("logo"));
+        await storage.uploadBlob("images/photo.jpg", encoder.encode("photo"));
+        await storage.uploadBlob("docs/readme.md", encoder.encode("readme"));
+        await storage.setBlobTags("images/logo.png", { kind: "media", owner: "john" });
+        await storage.setBlobTags("images/photo.jpg", { kind: "media", owner: "jane" });
+        await storage.setBlobTags("docs/readme.md", { kind: "document and media", owner: "john" });
+
+        expect(await storage.findBlobsByTags(`kind = 'media' AND "owner" = 'john'`)).to.deep.equal(["library/images/logo.png"]);
+        expect(await storage.findBlobsByTags(`"kind"='media'`)).to.deep.equal(["library/images/logo.png", "library/images/photo.jpg"]);
+        expect(await storage.findBlobsByTags(`kind = 'document and media' and owner = 'john'`)).to.deep.equal(["library/docs/readme.md"]);
+
+        let error: Error;
+
+        try {
+            await storage.findBlobsByTags(`kind = 'media' OR owner = 'john'`);
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).contains("Unsupported blob tags query");
+    });
+
+    it("Keeps snapshots and restores deleted blobs", async () => {
+        const storage = new InMemoryAzureBlobStorage(new StaticSettingsProvider({ blobStorageSnapshotOnOverwrite: true }), logger);
+        await storage.uploadBlob("pages/home.json", encoder.encode("v1"));
+        await storage.uploadBlob("pages/home.json", encoder.encode("v2"));
+
+        const [, firstVersion] = await storage.listBlobVersions("pages/home.json");
+        expect(decoder.decode(await storage.downloadBlobVersion("pages/home.json", firstVersion))).equals("v1");
+
+        await storage.deleteBlob("pages/home.json");
+
+        expect(await storage.listBlobs()).to.be.empty;
+        expect(await storage.listDeletedBlobs("pages")).to.deep.equal(["pages/home.json"]);
+        expect((await storage.listBlobVersions("pages/home.json")).map(version => version.isDeleted)).to.deep.equal([true, true]);
+
+        await storage.undeleteBlob("pages/home.json");
+        await storage.restoreBlobVersion("pages/home.json", firstVersion);
+
+        expect(decoder.decode(await storage.downloadBlob("pages/home.json"))).equals("v1");
+        expect(await storage.listDeletedBlobs()).to.be.empty;
+        expect((await storage.listBlobVersions("pages/home.json")).map(version => version.isCurrent)).to.deep.equal([true, false, false]);
+    });
+});
+
+describe("File system Azure Blob Storage", async () => {
+    const logger = new ConsoleLogger();
+    let localPath: string;
+    let containerIndex = 0;
+
+    before(async () => {
+        localPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), "paperbits-azure-"));
+    });
+
+    after(async () => {
+        await fs.promises.rm(localPath, { recursive: true, force: true });
+    });
+
+    describeBlobStorage("FileSystemAzureBlobStorage", (settings) => {
+        containerIndex += 1;
+
+        return new FileSystemAzureBlobStorage(new StaticSettingsProvider({
+            blobStorageLocalPath: localPath,
+            blobStorageContainer: `container${containerIndex}`,
+            ...settings
+        }), logger);
+    });
+
+    it("Requires container setting", async () => {
+        const storage = new FileSystemAzureBlobStorage(new StaticSettingsProvider({ blobStorageLocalPath: localPath }), logger);
+        let error: Error;
+
+        try {
+            await storage.listBlobs();
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error?.message).equals(`Setting "blobStorageContainer" required to initialize AzureBlobStorage.`);
+    });
+
+    it("Refuses blob keys outside of container", async () => {
+        const storage = new FileSystemAzureBlobStorage(new StaticSettingsProvider({ blobStorageLocalPath: localPath, blobStorageContainer: "guarded" }), logger);
+        let error: Error;
+
+        try {
+            await storage.uploadBlob("../escaped.txt", encoder.encode("x"));
+        }
+        catch (exception) {
+            error = exception;
+        }
+
+        expect(error).to.exist;
+        expect(fs.existsSync(path.join(localPath, "escaped.txt"))).equals(false);
+    });
+});
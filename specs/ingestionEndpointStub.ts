@@ -0,0 +1,94 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Local stand-in of App Insights ingestion endpoint, recording posted telemetry envelopes.
+ */
+export class IngestionEndpointStub {
+    private server: http.Server;
+    private readonly responses: { statusCode: number, body: object }[] = [];
+
+    /**
+     * Bodies (arrays of envelopes) of all the requests posted to "/v2/track", with time of receiving them.
+     */
+    public readonly requests: { receivedOn: number, envelopes: any[] }[] = [];
+
+    public async start(): Promise<void> {
+        this.server = http.createServer((request, response) => this.handleRequest(request, response));
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(0, "127.0.0.1", () => resolve());
+        });
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Ingestion endpoint, i.e. the value expected in "ingestionEndpoint" setting.
+     */
+    public get endpoint(): string {
+        const port = (<AddressInfo>this.server.address()).port;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    /**
+     * Envelopes of all the requests.
+     */
+    public get envelopes(): any[] {
+        return this.requests.flatMap(request => request.envelopes);
+    }
+
+    /**
+     * Makes the endpoint respond to the next request with specified status code and body instead of accepting all items.
+     * @param statusCode {number} HTTP status code, e.g. 503.
+     * @param body {object} Response body, e.g. `{ errors: [{ index: 0, statusCode: 429 }] }` of partial response.
+     */
+    public respondWith(statusCode: number, body: object = {}): void {
+        this.responses.push({ statusCode: statusCode, body: body });
+    }
+
+    /**
+     * Resolves once specified number of requests has been received.
+     */
+    public async waitForRequests(count: number, timeoutInMs: number = 5000): Promise<void> {
+        const startedOn = Date.now();
+
+        while (this.requests.length < count) {
+            if (Date.now() - startedOn > timeoutInMs) {
+                throw new Error(`Expected ${count} request(s), received ${this.requests.length}.`);
+            }
+
+            await new Promise(resolve => setTimeout(resolve, 10));
+        }
+    }
+
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const chunks: Buffer[] = [];
+
+        request.on("data", (chunk: Buffer) => chunks.push(chunk));
+        request.once("end", () => {
+            if (request.method !== "POST" || request.url !== "/v2/track") {
+                response.writeHead(404);
+                response.end();
+                return;
+            }
+
+            const envelopes = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+            this.requests.push({ receivedOn: Date.now(), envelopes: envelopes });
+
+            const { statusCode, body } = this.responses.shift()
+                || { statusCode: 200, body: { itemsReceived: envelopes.length, itemsAccepted: envelopes.length, errors: [] } };
+
+            response.writeHead(statusCode, { "Content-Type": "application/json" });
+            response.end(JSON.stringify(body));
+        });
+    }
+}
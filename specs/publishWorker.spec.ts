@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { describe, it, before, after } from "mocha";
+import { QueueServiceClient } from "@azure/storage-queue";
+import { InversifyInjector } from "@paperbits/common/injection";
+import { ConsoleLogger } from "@paperbits/common/logging";
+import { IPublisher } from "@paperbits/common/publishing";
+import { PublishRequest, ScopedPublisher } from "../src/publishing";
+import { PublishQueue } from "../src/publishing/publishQueue.server";
+import { PublishWorker } from "../src/publishing/publishWorker.server";
+import { QueuePublishModule } from "../src/queue.publish.module.server";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+import { AzuriteHost } from "./azuriteHost";
+
+class FakePublisher implements IPublisher {
+    public publishCount: number = 0;
+    public failures: number = 0;
+    public durationInMs: number = 0;
+
+    public async publish(): Promise<void> {
+        this.publishCount += 1;
+
+        if (this.durationInMs) {
+            await new Promise(resolve => setTimeout(resolve, this.durationInMs));
+        }
+
+        if (this.failures > 0) {
+            this.failures -= 1;
+            throw new Error("Publishing failed.");
+        }
+    }
+}
+
+class FakeScopedPublisher extends FakePublisher implements ScopedPublisher {
+    public readonly publishedRequests: PublishRequest[] = [];
+
+    public async publishScoped(request: PublishRequest): Promise<void> {
+        this.publishedRequests.push(request);
+        await this.publish();
+    }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Queue publishing", async () => {
+    const logger = new ConsoleLogger();
+    const azurite = new AzuriteHost(false, false, "queue");
+    let queueIndex = 0;
+
+    before(async () => {
+        await azurite.start();
+    });
+
+    after(async () => {
+        await azurite.stop();
+    });
+
+    const createSettingsProvider = (settings: Object = {}) => {
+        queueIndex += 1;
+
+        return new StaticSettingsProvider({
+            publishQueueConnectionString: azurite.connectionString,
+            publishQueueName: `publish${queueIndex}`,
+            publishQueueVisibilityTimeout: 1,
+            publishQueuePollingInterval: 100,
+            ...settings
+        });
+    };
+
+    const createQueue = async (settingsProvider: StaticSettingsProvider) => {
+        const queue = new PublishQueue(settingsProvider, logger);
+        await queue.createQueues();
+
+        return queue;
+    };
+
+    const getQueueLength = async (queueName: string) => {
+        const properties = await QueueServiceClient.fromConnectionString(azurite.connectionString).getQueueClient(queueName).getProperties();
+        return properties.approximateMessagesCount;
+    };
+
+    it("Publishes queued request and deletes it from the queue", async () => {
+        const settingsProvider = createSettingsProvider();
+        const queue = await createQueue(settingsProvider);
+        const publisher = new FakeScopedPublisher();
+        const worker = new PublishWorker(settingsProvider, publisher, queue, logger);
+
+        await queue.enqueue({ site: "contoso", locale: "en-us", requestedBy: "jane@contoso.com" });
+
+        const queuedRequest = await queue.receive(1);
+        expect(queuedRequest.request.site).equals("contoso");
+        expect(queuedRequest.request.locale).equals("en-us");
+        expect(queuedRequest.request.requestedBy).equals("jane@contoso.com");
+        expect(Date.parse(queuedRequest.request.timestamp)).to.be.closeTo(Date.now(), 60000);
+        expect(Buffer.from(queuedRequest.messageText, "base64").toString()).contains(`"site":"contoso"`);
+
+        await delay(1500);
+
+        expect(await worker.processNextRequest()).equals(true);
+        expect(await worker.processNextRequest()).equals(false);
+        expect(publisher.publishCount).equals(1);
+        expect(publisher.publishedRequests.map(request => [request.site, request.locale])).to.deep.equal([["contoso", "en-us"]]);
+        expect(await getQueueLength(`publish${queueIndex}`)).equals(0);
+    });
+
+    it("Moves request for particular site or locale to poison queue if publisher can't honour it", async () => {
+        const settingsProvider = createSettingsProvider();
+        const queue = await createQueue(settingsProvider);
+        const publisher = new FakePublisher();
+        const worker = new PublishWorker(settingsProvider, publisher, queue, logger);
+
+        await queue.enqueue({ locale: "en-us", requestedBy: "jane@contoso.com", timestamp: "2024-01-31T10:00:00.000Z" });
+        await queue.enqueue({ requestedBy: "john@contoso.com", timestamp: "2024-01-31T10:00:00.000Z" });
+
+        expect(await worker.processNextRequest()).equals(true);
+        expect(await worker.processNextRequest()).equals(true);
+        expect(publisher.publishCount).equals(1);
+        expect(await queue.peekPoisonQueue()).to.deep.equal([{ locale: "en-us", requestedBy: "jane@contoso.com", timestamp: "2024-01-31T10:00:00.000Z" }]);
+    });
+
+    it("Retries failed request and moves it to poison queue after maximum attempts", async () => {
+        const settingsProvider = createSettingsProvider({ publishQueueMaxAttempts: 2 });
+        const queue = await createQueue(settingsProvider);
+        const publisher = new FakePublisher();
+        const worker = new PublishWorker(settingsProvider, publisher, queue, logger);
+        publisher.failures = 2;
+
+        await queue.enqueue({ requestedBy: "jane@contoso.com", timestamp: "2024-01-31T10:00:00.000Z" });
+
+        expect(await worker.processNextRequest()).equals(true);
+        expect(await worker.processNextRequest()).equals(false); // hidden until visibility timeout expires
+
+        await delay(1500);
+
+        expect(await worker.processNextRequest()).equals(true);
+        expect(publisher.publishCount).equals(2);
+        expect(await getQueueLength(`publish${queueIndex}`)).equals(0);
+        expect(await queue.peekPoisonQueue()).to.deep.equal([{ requestedBy: "jane@contoso.com", timestamp: "2024-01-31T10:00:00.000Z" }]);
+    });
+
+    it("Moves malformed request to poison queue without publishing", async () => {
+        const settingsProvider = createSettingsProvider();
+        const queue = await createQueue(settingsProvider);
+        const publisher = new FakePublisher();
+        const worker = new PublishWorker(settingsProvider, publisher, queue, logger);
+        const queueName = `publish${queueIndex}`;
+
+        await QueueServiceClient.fromConnectionString(azurite.connectionString).getQueueClient(queueName).sendMessage("not a request");
+
+        expect(await worker.processNextRequest()).equals(true);
+        expect(publisher.publishCount).equals(0);
+        expect(await queue.peekPoisonQueue()).to.deep.equal([null]);
+    });
+
+    it("Keeps request hidden while publishing takes longer than visibility timeout", async () => {
+        const settingsProvider = createSettingsProvider();
+        const queue = await createQueue(settingsProvider);
+        const publisher = new FakePublisher();
+        const worker = new PublishWorker(settingsProvider, publisher, queue, logger);
+        const competingWorker = new PublishWorker(settingsProvider, new FakePublisher(), queue, logger);
+        publisher.durationInMs = 2500;
+
+        await queue.enqueue({ requestedBy: "jane@contoso.com" });
+
+        const processing = worker.processNextRequest();
+        await delay(1500);
+
+        expect(await competingWorker.processNextRequest()).equals(false);
+        expect(await processing).equals(true);
+        expect(await getQueueLength(`publish${queueIndex}`)).equals(0);
+    });
+
+    it("Processes requests in background until stopped", async () => {
+        const settingsProvider = createSettingsProvider();
+        const queue = await createQueue(settingsProvider);
+        const publisher = new FakePublisher();
+        const worker = new PublishWorker(settingsProvider, publisher, queue, logger);
+
+        worker.start();
+
+        await queue.enqueue({ requestedBy: "jane@contoso.com" });
+        await queue.enqueue({ requestedBy: "john@contoso.com" });
+
+        for (let attempt = 0; attempt < 50 && publisher.publishCount < 2; attempt += 1) {
+            await delay(100);
+        }
+
+        await worker.stop();
+
+        expect(publisher.publishCount).equals(2);
+    });
+
+    it("Registers queue and worker in the injector", async () => {
+        const injector = new InversifyInjector();
+        injector.bindInstance("settingsProvider", createSettingsProvider());
+        injector.bindInstance("sitePublisher", new FakePublisher());
+        injector.bindInstance("logger", logger);
+        injector.bindModule(new QueuePublishModule());
+
+        expect(injector.resolve("publishQueue")).to.be.instanceOf(PublishQueue);
+        expect(injector.resolve("publishWorker")).to.be.instanceOf(PublishWorker);
+    });
+});
@@ -0,0 +1,106 @@
+import * as crypto from "crypto";
+
+/**
+ * PEM-encoded certificate along with its private key.
+ */
+export interface SelfSignedCertificate {
+    cert: string;
+    key: string;
+}
+
+const ecdsaWithSha256 = "1.2.840.10045.4.3.2";
+const commonName = "2.5.4.3";
+const subjectAltName = "2.5.29.17";
+
+/**
+ * Creates self-signed certificate of 127.0.0.1 and localhost with a fresh P-256 key, valid for one day,
+ * so that no private key has to be kept in the repository.
+ */
+export function createSelfSignedCertificate(): SelfSignedCertificate {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+    const notBefore = new Date();
+    notBefore.setMinutes(notBefore.getMinutes() - 5);
+
+    const notAfter = new Date();
+    notAfter.setDate(notAfter.getDate() + 1);
+
+    const serialNumber = crypto.randomBytes(16);
+    serialNumber[0] &= 0x7f;
+
+    const name = sequence(set(sequence(objectIdentifier(commonName), der(0x0c, Buffer.from("127.0.0.1")))));
+    const signatureAlgorithm = sequence(objectIdentifier(ecdsaWithSha256));
+    const alternativeNames = sequence(der(0x87, Buffer.from([127, 0, 0, 1])), der(0x82, Buffer.from("localhost")));
+
+    const certificateInfo = sequence(
+        der(0xa0, der(0x02, Buffer.from([2]))),
+        der(0x02, serialNumber),
+        signatureAlgorithm,
+        name,
+        sequence(utcTime(notBefore), utcTime(notAfter)),
+        name,
+        publicKey.export({ type: "spki", format: "der" }),
+        der(0xa3, sequence(sequence(objectIdentifier(subjectAltName), der(0x04, alternativeNames))))
+    );
+
+    const signature = crypto.sign("sha256", certificateInfo, privateKey);
+    const certificate = sequence(certificateInfo, signatureAlgorithm, der(0x03, Buffer.concat([Buffer.from([0]), signature])));
+
+    return {
+        cert: toPem("CERTIFICATE", certificate),
+        key: <string>privateKey.export({ type: "pkcs8", format: "pem" })
+    };
+}
+
+/**
+ * Encodes DER element.
+ * @param tag {number} Tag of the element.
+ * @param content {Buffer} Encoded content.
+ */
+function der(tag: number, content: Buffer): Buffer {
+    if (content.length < 0x80) {
+        return Buffer.concat([Buffer.from([tag, content.length]), content]);
+    }
+
+    const length: number[] = [];
+
+    for (let remaining = content.length; remaining > 0; remaining = Math.floor(remaining / 0x100)) {
+        length.unshift(remaining % 0x100);
+    }
+
+    return Buffer.concat([Buffer.from([tag, 0x80 | length.length, ...length]), content]);
+}
+
+function sequence(...elements: Buffer[]): Buffer {
+    return der(0x30, Buffer.concat(elements));
+}
+
+function set(...elements: Buffer[]): Buffer {
+    return der(0x31, Buffer.concat(elements));
+}
+
+function objectIdentifier(oid: string): Buffer {
+    const [first, second, ...rest] = oid.split(".").map(Number);
+    const bytes = [first * 40 + second];
+
+    for (const arc of rest) {
+        const arcBytes = [arc & 0x7f];
+
+        for (let remaining = arc >> 7; remaining > 0; remaining >>= 7) {
+            arcBytes.unshift(0x80 | (remaining & 0x7f));
+        }
+
+        bytes.push(...arcBytes);
+    }
+
+    return der(0x06, Buffer.from(bytes));
+}
+
+function utcTime(date: Date): Buffer {
+    return der(0x17, Buffer.from(date.toISOString().replace(/[-:T]/g, "").substring(2, 14) + "Z"));
+}
+
+function toPem(label: string, content: Buffer): string {
+    const lines = content.toString("base64").match(/.{1,64}/g);
+    return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
@@ -0,0 +1,236 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "chai";
+import { describe, it, before, after, beforeEach, afterEach } from "mocha";
+import { ServerLogService } from "../src/logging/appInsightsLogger.server";
+import { ServerAppInsightsLoggerSettings } from "../src/logging/serverAppInsightsLoggerSettings";
+import { StaticSettingsProvider } from "./staticSettingsProvider";
+import { IngestionEndpointStub } from "./ingestionEndpointStub";
+
+const instrumentationKey = "00000000-0000-0000-0000-000000000001";
+
+describe("Server App Insights logger", async () => {
+    const endpoint = new IngestionEndpointStub();
+    const loggers: ServerLogService[] = [];
+    let offlineStoragePath: string;
+
+    before(async () => {
+        await endpoint.start();
+    });
+
+    after(async () => {
+        await endpoint.stop();
+    });
+
+    beforeEach(async () => {
+        endpoint.requests.length = 0;
+        offlineStoragePath = await fs.promises.mkdtemp(path.join(os.tmpdir(), "paperbits-telemetry-"));
+    });
+
+    afterEach(async () => {
+        for (const logger of loggers.splice(0)) {
+            await logger.close();
+        }
+
+        await fs.promises.rm(offlineStoragePath, { recursive: true, force: true });
+    });
+
+    const createLogger = (settings: ServerAppInsightsLoggerSettings = {}) => {
+        const logger = new ServerLogService(new StaticSettingsProvider({
+            appInsights: {
+                connectionString: `InstrumentationKey=${instrumentationKey};IngestionEndpoint=${endpoint.endpoint}/`,
+                offlineStoragePath: offlineStoragePath,
+                flushIntervalInMs: 60000,
+                retryDelayInMs: 50,
+                ...settings
+            }
+        }));
+
+        loggers.push(logger);
+
+        return logger;
+    };
+
+    const getStoredBatches = async () => {
+        const fileNames = await fs.promises.readdir(offlineStoragePath);
+        return fileNames.map(fileName => JSON.parse(fs.readFileSync(path.join(offlineStoragePath, fileName), "utf8")));
+    };
+
+    it("Posts telemetry envelopes", async () => {
+        const logger = createLogger({ cloudRoleName: "publisher", cloudRoleInstance: "worker-1" });
+        const error = new TypeError("Invalid page");
+
+        await logger.trackEvent("Page published", { pageKey: "pages/home" });
+        await logger.trackError(error);
+        await logger.trackView("home");
+        await logger.trackMetric("Publishing duration", { value: "1250", count: 2, min: 1000, max: 1500, site: "contoso" });
+        await logger.trackDependency("GET /pages", { target: "api.contoso.com", duration: 90500, resultCode: 503 });
+        await logger.flush();
+
+        expect(endpoint.requests).to.have.length(1);
+
+        const envelopes = endpoint.envelopes;
+
+        expect(envelopes.map(envelope => envelope.name)).to.deep.equal([
+            "Microsoft.ApplicationInsights.00000000000000000000000000000001.Event",
+            "Microsoft.ApplicationInsights.00000000000000000000000000000001.Event",
+            "Microsoft.ApplicationInsights.00000000000000000000000000000001.Exception",
+            "Microsoft.ApplicationInsights.00000000000000000000000000000001.Pageview",
+            "Microsoft.ApplicationInsights.00000000000000000000000000000001.Metric",
+            "Microsoft.ApplicationInsights.00000000000000000000000000000001.RemoteDependency"
+        ]);
+
+        for (const envelope of envelopes) {
+            expect(envelope.iKey).equals(instrumentationKey);
+            expect(envelope.sampleRate).equals(100);
+            expect(Date.parse(envelope.time)).to.be.closeTo(Date.now(), 60000);
+            expect(envelope.tags).to.deep.equal({ "ai.cloud.role": "publisher", "ai.cloud.roleInstance": "worker-1", "ai.internal.sdkVersion": "node:paperbits" });
+        }
+
+        expect(envelopes[0].data).to.deep.equal({ baseType: "EventData", baseData: { ver: 2, name: "Session started", properties: {} } });
+        expect(envelopes[1].data).to.deep.equal({ baseType: "EventData", baseData: { ver: 2, name: "Page published", properties: { pageKey: "pages/home" } } });
+        expect(envelopes[2].data).to.deep.equal({
+            baseType: "ExceptionData",
+            baseData: {
+                ver: 2,
+                exceptions: [{ typeName: "TypeError", message: "Invalid page", hasFullStack: true, stack: error.stack }],
+                severityLevel: 3,
+                properties: {}
+            }
+        });
+        expect(envelopes[3].data).to.deep.equal({ baseType: "PageviewData", baseData: { ver: 2, name: "home", properties: {} } });
+        expect(envelopes[4].data).to.deep.equal({
+            baseType: "MetricData",
+            baseData: {
+                ver: 2,
+                metrics: [{ name: "Publishing duration", kind: 1, value: 1250, count: 2, min: 1000, max: 1500 }],
+                properties: { site: "contoso" }
+            }
+        });
+        expect(envelopes[5].data.baseData).to.include({
+            name: "GET /pages",
+            target: "api.contoso.com",
+            duration: "0.00:01:30.500",
+            success: false,
+            resultCode: "503"
+        });
+    });
+
+    it("Flushes when batch is full and on interval", async () => {
+        const logger = createLogger({ maxBatchSize: 2, flushIntervalInMs: 200 });
+
+        await logger.trackEvent("First");
+        await endpoint.waitForRequests(1);
+
+        await logger.trackEvent("Second");
+        await endpoint.waitForRequests(2);
+
+        expect(endpoint.requests.map(request => request.envelopes.length)).to.deep.equal([2, 1]);
+        expect(endpoint.requests[1].receivedOn - endpoint.requests[0].receivedOn).to.be.greaterThan(100);
+    });
+
+    it("Retries transient failures with exponential backoff", async () => {
+        const logger = createLogger();
+        endpoint.respondWith(503);
+        endpoint.respondWith(429);
+
+        await logger.trackEvent("Page published");
+        await logger.flush();
+
+        const [first, second, third] = endpoint.requests;
+
+        expect(endpoint.requests).to.have.length(3);
+        expect(second.receivedOn - first.receivedOn).to.be.at.least(45);
+        expect(third.receivedOn - second.receivedOn).to.be.at.least(95);
+        expect(third.envelopes).to.deep.equal(first.envelopes);
+        expect(await getStoredBatches()).to.be.empty;
+    });
+
+    it("Retries only items failed transiently in partial response", async () => {
+        const logger = createLogger();
+        endpoint.respondWith(206, { itemsReceived: 3, itemsAccepted: 1, errors: [{ index: 1, statusCode: 503 }, { index: 2, statusCode: 400 }] });
+
+        await logger.trackEvent("First");
+        await logger.trackEvent("Second");
+        await logger.flush();
+
+        expect(endpoint.requests).to.have.length(2);
+        expect(endpoint.requests[1].envelopes.map(envelope => envelope.data.baseData.name)).to.deep.equal(["First"]);
+    });
+
+    it("Drops telemetry rejected by ingestion endpoint", async () => {
+        const logger = createLogger();
+        endpoint.respondWith(400);
+
+        await logger.flush();
+
+        expect(endpoint.requests).to.have.length(1);
+        expect(await getStoredBatches()).to.be.empty;
+    });
+
+    it("Buffers telemetry to disk when offline and sends it later", async () => {
+        const offlineEndpoint = new IngestionEndpointStub();
+        await offlineEndpoint.start();
+
+        const unreachableEndpoint = offlineEndpoint.endpoint;
+        await offlineEndpoint.stop();
+
+        const offlineLogger = createLogger({ ingestionEndpoint: unreachableEndpoint, maxRetries: 1, retryDelayInMs: 10 });
+        await offlineLogger.trackEvent("Offline event");
+        await offlineLogger.flush();
+
+        const [storedBatch] = await getStoredBatches();
+        expect(storedBatch.map(envelope => envelope.data.baseData.name)).to.deep.equal(["Session started", "Offline event"]);
+
+        const onlineLogger = createLogger();
+        await onlineLogger.flush();
+
+        expect(endpoint.envelopes.map(envelope => envelope.data.baseData.name)).to.deep.equal(["Session started", "Offline event", "Session started"]);
+        expect(await getStoredBatches()).to.be.empty;
+
+        await onlineLogger.trackEvent("Online event");
+        await onlineLogger.flush();
+
+        expect(endpoint.envelopes.map(envelope => envelope.data.baseData.name)).to.deep.equal(["Session started", "Offline event", "Session started", "Online event"]);
+    });
+
+    it("Keeps sending telemetry after failure to process buffered telemetry", async () => {
+        await fs.promises.mkdir(path.join(offlineStoragePath, "0-unreadable.json"));
+        await fs.promises.writeFile(path.join(offlineStoragePath, "1-stored.json"), JSON.stringify([{ data: { baseData: { name: "Stored event" } } }]));
+
+        const logger = createLogger({ maxBatchSize: 1 });
+        await logger.flush();
+
+        await logger.trackEvent("Page published");
+        await logger.flush();
+
+        expect(endpoint.envelopes.map(envelope => envelope.data.baseData.name)).to.deep.equal(["Stored event", "Session started", "Page published"]);
+    });
+
+    it("Buffers telemetry being sent to disk on exit", async () => {
+        const logger = createLogger({ retryDelayInMs: 200 });
+        endpoint.respondWith(503);
+
+        await logger.trackEvent("In flight");
+        const flushPromise = logger.flush();
+        await endpoint.waitForRequests(1);
+
+        await logger.trackEvent("Buffered");
+        (<any>logger).onExit();
+
+        const [storedBatch] = await getStoredBatches();
+        expect(storedBatch.map(envelope => envelope.data.baseData.name)).to.deep.equal(["Session started", "In flight", "Buffered"]);
+
+        await flushPromise;
+    });
+
+    it("Skips telemetry without connection string", async () => {
+        const logger = new ServerLogService(new StaticSettingsProvider({}));
+
+        await logger.trackEvent("Ignored");
+        await logger.close();
+
+        expect(endpoint.requests).to.be.empty;
+    });
+});
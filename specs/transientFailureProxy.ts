@@ -0,0 +1,108 @@
+import * as http from "http";
+import * as https from "https";
+import { AddressInfo } from "net";
+import { SelfSignedCertificate } from "./selfSignedCertificate";
+
+/**
+ * HTTP proxy in front of Azurite which fails requests on demand, simulating transient errors of the storage service.
+ * Proxy of HTTPS endpoint serves HTTPS with the self-signed certificate of secure Azurite.
+ */
+export class TransientFailureProxy {
+    private server: http.Server | https.Server;
+    private targetUrl: URL;
+    private remainingFailures: number = 0;
+    private failureStatusCode: number = 503;
+    private failureErrorCode: string = "ServerBusy";
+
+    /**
+     * URLs (path and query) of all the requests received by the proxy.
+     */
+    public readonly requestUrls: string[] = [];
+
+    /**
+     * Headers of all the requests received by the proxy.
+     */
+    public readonly requestHeaders: http.IncomingHttpHeaders[] = [];
+
+    /**
+     * @param targetEndpoint {string} Proxied blob endpoint, e.g. `http://127.0.0.1:10000/devstoreaccount1`.
+     * @param certificate {SelfSignedCertificate} Certificate served by proxy of HTTPS endpoint.
+     */
+    public async start(targetEndpoint: string, certificate?: SelfSignedCertificate): Promise<void> {
+        this.targetUrl = new URL(targetEndpoint);
+
+        const handler = (request: http.IncomingMessage, response: http.ServerResponse) => this.handleRequest(request, response);
+
+        this.server = this.isSecure
+            ? https.createServer({ cert: certificate.cert, key: certificate.key }, handler)
+            : http.createServer(handler);
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(0, "127.0.0.1", () => resolve());
+        });
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+
+        await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Blob endpoint served by the proxy.
+     */
+    public get blobEndpoint(): string {
+        const port = (<AddressInfo>this.server.address()).port;
+        return `${this.targetUrl.protocol}//127.0.0.1:${port}${this.targetUrl.pathname}`;
+    }
+
+    private get isSecure(): boolean {
+        return this.targetUrl.protocol === "https:";
+    }
+
+    /**
+     * Makes the proxy respond to the next requests with an error instead of forwarding them.
+     * @param count {number} Number of failed requests.
+     * @param statusCode {number} HTTP status code of the failures.
+     * @param errorCode {string} Storage error code of the failures.
+     */
+    public failNextRequests(count: number, statusCode: number = 503, errorCode: string = "ServerBusy"): void {
+        this.remainingFailures = count;
+        this.failureStatusCode = statusCode;
+        this.failureErrorCode = errorCode;
+    }
+
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        this.requestUrls.push(request.url);
+        this.requestHeaders.push(request.headers);
+
+        if (this.remainingFailures > 0) {
+            this.remainingFailures -= 1;
+
+            request.resume();
+            request.once("end", () => {
+                response.writeHead(this.failureStatusCode, { "Content-Type": "application/xml", "x-ms-error-code": this.failureErrorCode });
+                response.end(`<?xml version="1.0" encoding="utf-8"?><Error><Code>${this.failureErrorCode}</Code><Message>Simulated failure.</Message></Error>`);
+            });
+            return;
+        }
+
+        const proxyRequest = (this.isSecure ? https : http).request({
+            host: this.targetUrl.hostname,
+            port: this.targetUrl.port,
+            method: request.method,
+            path: request.url,
+            headers: request.headers,
+            rejectUnauthorized: false
+        }, (proxyResponse) => {
+            response.writeHead(proxyResponse.statusCode, proxyResponse.headers);
+            proxyResponse.pipe(response);
+        });
+
+        proxyRequest.once("error", (error) => response.destroy(error));
+        request.pipe(proxyRequest);
+    }
+}
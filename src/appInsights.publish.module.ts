@@ -9,11 +9,12 @@
 
 
 import { IInjectorModule, IInjector } from "@paperbits/common/injection";
-import { AppInsightsHtmlPagePublisherPlugin } from "./publishing";
+import { AppInsightsHtmlPagePublisherPlugin, AppInsightsScriptPublisher } from "./publishing";
 
 
 export class AppInsightsPublishModule implements IInjectorModule {
     public register(injector: IInjector): void {
         injector.bindToCollection("htmlPagePublisherPlugins", AppInsightsHtmlPagePublisherPlugin);
+        injector.bindToCollection("publishers", AppInsightsScriptPublisher);
     }
 }
\ No newline at end of file
@@ -1,2 +1,5 @@
 export * from "./logging/appInsightsLogger";
+export * from "./logging/appInsightsLoggerSettings";
+export * from "./logging/dependencyProperties";
+export * from "./logging/metricProperties";
 export * from "./appInsights.publish.module";
\ No newline at end of file
@@ -0,0 +1,432 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Bag } from "@paperbits/common";
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { Logger } from "@paperbits/common/logging";
+import { DependencyProperties } from "./dependencyProperties";
+import { MetricProperties } from "./metricProperties";
+import { ServerAppInsightsLoggerSettings } from "./serverAppInsightsLoggerSettings";
+import { newTelemetryId, toBoolean, toCustomProperties, toNumber, toPropertyBag, toText } from "./telemetryConversion";
+import { TelemetryEnvelope } from "./telemetryEnvelope";
+
+/**
+ * Ingestion endpoint used when neither settings nor connection string specify one.
+ */
+const defaultIngestionEndpoint = "https://dc.services.visualstudio.com";
+
+const defaultMaxBatchSize = 100;
+const defaultFlushIntervalInMs = 15000;
+const defaultMaxRetries = 3;
+const defaultRetryDelayInMs = 1000;
+
+/**
+ * Status codes of ingestion responses (or of individual items in partial response) worth retrying.
+ */
+const retriableStatusCodes = [408, 429, 439, 500, 502, 503, 504];
+
+/**
+ * Version of telemetry client reported in "ai.internal.sdkVersion" tag.
+ */
+const sdkVersion = "node:paperbits";
+
+/**
+ * Server-side App Insights logger, which posts telemetry envelopes to ingestion endpoint. Telemetry items get
+ * batched and flushed on interval, when the batch is full or when the process is about to exit. Transmissions
+ * failed with transient errors are retried with exponential backoff and then buffered to disk, to be sent
+ * after next successful transmission.
+ */
+export class ServerLogService implements Logger {
+    private initializePromise: Promise<void>;
+    private settings: ServerAppInsightsLoggerSettings;
+    private instrumentationKey: string;
+    private trackUrl: string;
+    private offlineStoragePath: string;
+    private tags: Bag<string>;
+    private buffer: TelemetryEnvelope[];
+    private pendingBatches: Set<TelemetryEnvelope[]>;
+    private flushPromise: Promise<void>;
+    private flushTimer: NodeJS.Timeout;
+
+    constructor(private readonly settingsProvider: ISettingsProvider) {
+        this.initializePromise = null;
+        this.buffer = [];
+        this.pendingBatches = new Set();
+        this.flushPromise = Promise.resolve();
+        this.flushTimer = null;
+        this.onBeforeExit = this.onBeforeExit.bind(this);
+        this.onExit = this.onExit.bind(this);
+        this.trackSession().catch(error => console.warn(`Unable to track session. ${error?.message}`));
+    }
+
+    private async initialize(): Promise<void> {
+        if (!this.initializePromise) {
+            this.initializePromise = this.initClient();
+        }
+
+        return this.initializePromise;
+    }
+
+    private async initClient(): Promise<void> {
+        this.settings = await this.settingsProvider.getSetting<ServerAppInsightsLoggerSettings>("appInsights") || {};
+
+        const connectionString = this.parseConnectionString(this.settings.connectionString);
+        this.instrumentationKey = connectionString["instrumentationkey"] || this.settings.instrumentationKey;
+
+        if (!this.instrumentationKey) {
+            console.warn("AppInsights connection string wasn't specified.");
+            return;
+        }
+
+        const ingestionEndpoint = this.settings.ingestionEndpoint
+            || connectionString["ingestionendpoint"]
+            || (connectionString["endpointsuffix"]
+                ? `https://${connectionString["location"] ? `${connectionString["location"]}.` : ""}dc.${connectionString["endpointsuffix"]}`
+                : defaultIngestionEndpoint);
+
+        this.trackUrl = `${ingestionEndpoint.replace(/\/+$/, "")}/v2/track`;
+        this.offlineStoragePath = this.settings.offlineStoragePath || path.join(os.tmpdir(), "paperbits-telemetry", this.instrumentationKey);
+        this.tags = {
+            "ai.cloud.role": this.settings.cloudRoleName,
+            "ai.cloud.roleInstance": this.settings.cloudRoleInstance || os.hostname(),
+            "ai.internal.sdkVersion": sdkVersion
+        };
+
+        this.flushTimer = setInterval(() => this.flush().catch(this.onFlushError), this.settings.flushIntervalInMs || defaultFlushIntervalInMs);
+        this.flushTimer.unref();
+
+        process.on("beforeExit", this.onBeforeExit);
+        process.on("exit", this.onExit);
+
+        /* Sends telemetry buffered to disk by previous runs. */
+        this.flushPromise = this.flushPromise.then(() => this.sendStoredBatches()).catch(this.onFlushError);
+    }
+
+    private onBeforeExit(): void {
+        if (this.buffer.length > 0) {
+            this.flush().catch(this.onFlushError);
+        }
+    }
+
+    /**
+     * Reports failure of flushing, which is often not awaited, so that it doesn't surface as unhandled rejection.
+     */
+    private onFlushError(error: Error): void {
+        console.warn(`Unable to send telemetry. ${error?.message}`);
+    }
+
+    /**
+     * Buffers pending telemetry to disk, including batches not sent yet, as asynchronous transmission
+     * isn't possible anymore.
+     */
+    private onExit(): void {
+        const envelopes = [...Array.from(this.pendingBatches).flat(), ...this.buffer.splice(0)];
+        this.pendingBatches.clear();
+
+        if (envelopes.length === 0) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(this.offlineStoragePath, { recursive: true });
+            fs.writeFileSync(this.getStoredBatchPath(), JSON.stringify(envelopes));
+        }
+        catch (error) {
+            console.warn(`Unable to buffer telemetry to disk. ${error.message}`);
+        }
+    }
+
+    /**
+     * Sends all the buffered telemetry items.
+     */
+    public async flush(): Promise<void> {
+        await this.initialize();
+
+        const envelopes = this.buffer.splice(0);
+
+        if (envelopes.length > 0) {
+            this.pendingBatches.add(envelopes);
+            this.flushPromise = this.flushPromise
+                .then(() => this.transmit(envelopes))
+                .catch(this.onFlushError)
+                .finally(() => this.pendingBatches.delete(envelopes));
+        }
+
+        await this.flushPromise;
+    }
+
+    /**
+     * Stops flushing on interval and on exit, and sends all the buffered telemetry items.
+     */
+    public async close(): Promise<void> {
+        await this.initialize();
+
+        clearInterval(this.flushTimer);
+        process.off("beforeExit", this.onBeforeExit);
+        process.off("exit", this.onExit);
+
+        await this.flush();
+    }
+
+    public async trackSession(): Promise<void> {
+        await this.trackEvent(`Session started`);
+    }
+
+    public async trackEvent(eventName: string, properties?: Bag<string>): Promise<void> {
+        await this.track("Event", "EventData", {
+            name: eventName,
+            properties: toCustomProperties(toPropertyBag(properties))
+        });
+    }
+
+    public async trackError(error: Error, properties?: Bag<string>): Promise<void> {
+        await this.track("Exception", "ExceptionData", {
+            exceptions: [{
+                typeName: error?.name || "Error",
+                message: error?.message || String(error),
+                hasFullStack: !!error?.stack,
+                stack: error?.stack
+            }],
+            severityLevel: 3,
+            properties: toCustomProperties(toPropertyBag(properties))
+        });
+    }
+
+    public async trackView(name: string, properties?: Bag<string>): Promise<void> {
+        await this.track("Pageview", "PageviewData", {
+            name: name,
+            properties: toCustomProperties(toPropertyBag(properties))
+        });
+    }
+
+    /**
+     * Tracks metric value, e.g. `trackMetric("Publishing duration", { value: 1250 })`.
+     * @param name {string} Name of the metric.
+     * @param properties {MetricProperties} Value of the metric and custom properties.
+     */
+    public async trackMetric(name: string, properties?: Bag<string> | MetricProperties): Promise<void> {
+        const { value, count, min, max, ...customProperties } = toPropertyBag(properties);
+        const metricValue = toNumber(value);
+
+        if (metricValue === undefined) {
+            console.warn(`Metric "${name}" skipped: value "${value}" isn't a number.`);
+            return;
+        }
+
+        const sampleCount = toNumber(count);
+
+        await this.track("Metric", "MetricData", {
+            metrics: [{
+                name: name,
+                kind: sampleCount > 1 ? 1 : 0,
+                value: metricValue,
+                count: sampleCount,
+                min: toNumber(min),
+                max: toNumber(max)
+            }],
+            properties: toCustomProperties(customProperties)
+        });
+    }
+
+    /**
+     * Tracks call to external dependency, e.g. `trackDependency("GET /pages", { target: "api.contoso.com", duration: 120, resultCode: 200 })`.
+     * @param name {string} Name of the call.
+     * @param properties {DependencyProperties} Details of the call and custom properties.
+     */
+    public async trackDependency(name: string, properties?: Bag<string> | DependencyProperties): Promise<void> {
+        const { target, duration, success, resultCode, type, data, ...customProperties } = toPropertyBag(properties);
+        const responseCode = toNumber(resultCode);
+
+        await this.track("RemoteDependency", "RemoteDependencyData", {
+            id: newTelemetryId(),
+            name: name,
+            target: toText(target),
+            duration: this.formatDuration(toNumber(duration)),
+            success: toBoolean(success) ?? (responseCode === undefined || responseCode < 400),
+            resultCode: toText(resultCode) || "0",
+            type: toText(type),
+            data: toText(data),
+            properties: toCustomProperties(customProperties)
+        });
+    }
+
+    private async track(telemetryType: string, baseType: string, baseData: Bag<unknown>): Promise<void> {
+        await this.initialize();
+
+        if (!this.instrumentationKey) {
+            return;
+        }
+
+        const samplingPercentage = this.settings.samplingPercentage ?? 100;
+
+        if (samplingPercentage < 100 && Math.random() * 100 >= samplingPercentage) {
+            return;
+        }
+
+        this.buffer.push({
+            name: `Microsoft.ApplicationInsights.${this.instrumentationKey.replace(/-/g, "")}.${telemetryType}`,
+            time: new Date().toISOString(),
+            iKey: this.instrumentationKey,
+            sampleRate: samplingPercentage,
+            tags: this.tags,
+            data: {
+                baseType: baseType,
+                baseData: { ver: 2, ...baseData }
+            }
+        });
+
+        if (this.buffer.length >= (this.settings.maxBatchSize || defaultMaxBatchSize)) {
+            this.flush().catch(this.onFlushError);
+        }
+    }
+
+    /**
+     * Sends telemetry items, retrying transient failures with exponential backoff. Items which couldn't be sent
+     * get buffered to disk.
+     */
+    private async transmit(envelopes: TelemetryEnvelope[]): Promise<void> {
+        const maxRetries = this.settings.maxRetries ?? defaultMaxRetries;
+        const retryDelayInMs = this.settings.retryDelayInMs ?? defaultRetryDelayInMs;
+        let pendingEnvelopes = envelopes;
+
+        for (let attempt = 0; attempt <= maxRetries; attempt += 1) {
+            if (attempt > 0) {
+                await new Promise(resolve => setTimeout(resolve, retryDelayInMs * 2 ** (attempt - 1)));
+            }
+
+            pendingEnvelopes = await this.send(pendingEnvelopes);
+
+            if (pendingEnvelopes.length === 0) {
+                await this.sendStoredBatches();
+                return;
+            }
+        }
+
+        await this.storeBatch(pendingEnvelopes);
+    }
+
+    /**
+     * Posts telemetry items to ingestion endpoint.
+     * @returns Items failed with transient errors.
+     */
+    private async send(envelopes: TelemetryEnvelope[]): Promise<TelemetryEnvelope[]> {
+        let response: Response;
+
+        try {
+            response = await fetch(this.trackUrl, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(envelopes)
+            });
+        }
+        catch (error) {
+            return envelopes; // e.g. offline
+        }
+
+        if (response.status === 200) {
+            return [];
+        }
+
+        if (response.status === 206) {
+            const result = await response.json().catch(() => null);
+            const errors: { index: number, statusCode: number }[] = result?.errors || [];
+
+            return errors
+                .filter(error => retriableStatusCodes.includes(error.statusCode))
+                .map(error => envelopes[error.index])
+                .filter(envelope => !!envelope);
+        }
+
+        if (retriableStatusCodes.includes(response.status)) {
+            return envelopes;
+        }
+
+        console.warn(`Telemetry rejected by ingestion endpoint with status code ${response.status}.`);
+        return [];
+    }
+
+    private async storeBatch(envelopes: TelemetryEnvelope[]): Promise<void> {
+        try {
+            await fs.promises.mkdir(this.offlineStoragePath, { recursive: true });
+            await fs.promises.writeFile(this.getStoredBatchPath(), JSON.stringify(envelopes));
+        }
+        catch (error) {
+            console.warn(`Unable to buffer telemetry to disk. ${error.message}`);
+        }
+    }
+
+    /**
+     * Sends batches buffered to disk, oldest first, until a transmission fails.
+     */
+    private async sendStoredBatches(): Promise<void> {
+        let fileNames: string[];
+
+        try {
+            fileNames = (await fs.promises.readdir(this.offlineStoragePath)).filter(fileName => fileName.endsWith(".json")).sort();
+        }
+        catch (error) {
+            return; // nothing stored yet
+        }
+
+        for (const fileName of fileNames) {
+            const filePath = path.join(this.offlineStoragePath, fileName);
+            let envelopes: TelemetryEnvelope[];
+
+            try {
+                envelopes = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+            }
+            catch (error) {
+                console.warn(`Unable to read buffered telemetry ${fileName}. ${error.message}`);
+                await fs.promises.rm(filePath, { force: true })
+                    .catch(removalError => console.warn(`Unable to remove buffered telemetry ${fileName}. ${removalError.message}`));
+                continue;
+            }
+
+            const pendingEnvelopes = await this.send(envelopes);
+
+            if (pendingEnvelopes.length > 0) {
+                await fs.promises.writeFile(filePath, JSON.stringify(pendingEnvelopes));
+                return;
+            }
+
+            await fs.promises.rm(filePath, { force: true });
+        }
+    }
+
+    private getStoredBatchPath(): string {
+        return path.join(this.offlineStoragePath, `${Date.now()}-${newTelemetryId()}.json`);
+    }
+
+    /**
+     * Parses connection string into a bag of lower-cased keys, e.g. "instrumentationkey".
+     */
+    private parseConnectionString(connectionString: string): Bag<string> {
+        const parameters: Bag<string> = {};
+
+        for (const parameter of (connectionString || "").split(";")) {
+            const separatorIndex = parameter.indexOf("=");
+
+            if (separatorIndex > 0) {
+                parameters[parameter.substring(0, separatorIndex).trim().toLowerCase()] = parameter.substring(separatorIndex + 1).trim();
+            }
+        }
+
+        return parameters;
+    }
+
+    /**
+     * Formats duration as time span expected by App Insights, e.g. 90500 as "0.00:01:30.500".
+     */
+    private formatDuration(durationInMs: number): string {
+        const totalMs = Math.max(0, Math.round(durationInMs || 0));
+        const pad = (value: number, length: number = 2) => `${value}`.padStart(length, "0");
+
+        const milliseconds = totalMs % 1000;
+        const seconds = Math.floor(totalMs / 1000) % 60;
+        const minutes = Math.floor(totalMs / 60000) % 60;
+        const hours = Math.floor(totalMs / 3600000) % 24;
+        const days = Math.floor(totalMs / 86400000);
+
+        return `${days}.${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds, 3)}`;
+    }
+}
\ No newline at end of file
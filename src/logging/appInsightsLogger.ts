@@ -1,41 +1,194 @@
 import { Bag } from "@paperbits/common";
+import { ISettingsProvider } from "@paperbits/common/configuration";
 import { Logger } from "@paperbits/common/logging";
-import { AppInsights } from "applicationinsights-js";
+import { ApplicationInsights, IApplicationInsights, IConfig, IConfiguration, ITelemetryItem } from "@microsoft/applicationinsights-web";
+import { AppInsightsLoggerSettings } from "./appInsightsLoggerSettings";
+import { DependencyProperties } from "./dependencyProperties";
+import { MetricProperties } from "./metricProperties";
+import { newTelemetryId, toBoolean, toCustomProperties, toNumber, toPropertyBag, toText } from "./telemetryConversion";
+
+/**
+ * Host names of environments where telemetry gets collected, unless "allowedHosts" specified in settings.
+ */
+const defaultAllowedHosts = ["*.net"];
 
 
 export class LogService implements Logger {
-    constructor(private readonly instrumentationKey: string) {
-        if (this.instrumentationKey && location.hostname.endsWith(".net")) {
-            AppInsights.downloadAndSetup({ instrumentationKey: this.instrumentationKey });
+    private initializePromise: Promise<IApplicationInsights>;
+
+    constructor(private readonly settingsProvider: ISettingsProvider) {
+        this.initializePromise = null;
+        this.trackSession().catch(error => console.warn(`Unable to track session. ${error?.message}`));
+    }
+
+    private async initialize(): Promise<IApplicationInsights> {
+        if (!this.initializePromise) {
+            this.initializePromise = this.initClient();
+        }
+
+        return this.initializePromise;
+    }
+
+    private async initClient(): Promise<IApplicationInsights> {
+        const settings = await this.settingsProvider.getSetting<AppInsightsLoggerSettings>("appInsights");
+
+        if (!settings?.connectionString && !settings?.instrumentationKey) {
+            console.warn("AppInsights connection string wasn't specified.");
+            return null;
+        }
+
+        const hostname = this.getHostname();
+        const allowedHosts = settings.allowedHosts || defaultAllowedHosts;
+
+        if (!allowedHosts.some(pattern => this.matchesHost(hostname, pattern))) {
+            console.warn(`AppInsights telemetry isn't collected in current environment (${hostname}).`);
+            return null;
+        }
+
+        const config: IConfiguration & IConfig = {
+            connectionString: settings.connectionString,
+            instrumentationKey: settings.connectionString ? undefined : settings.instrumentationKey,
+            samplingPercentage: settings.samplingPercentage
+        };
+
+        if (settings.ingestionEndpoint) {
+            config.endpointUrl = `${settings.ingestionEndpoint.replace(/\/+$/, "")}/v2/track`;
+        }
+
+        try {
+            const client = this.createClient(config);
+
+            if (settings.cloudRoleName || settings.cloudRoleInstance) {
+                client.addTelemetryInitializer((item: ITelemetryItem) => {
+                    item.tags = item.tags || <ITelemetryItem["tags"]>{};
+
+                    if (settings.cloudRoleName) {
+                        item.tags["ai.cloud.role"] = settings.cloudRoleName;
+                    }
+
+                    if (settings.cloudRoleInstance) {
+                        item.tags["ai.cloud.roleInstance"] = settings.cloudRoleInstance;
+                    }
+                });
+            }
+
+            return client;
         }
-        else {
-            console.warn("AppInsights instrumentation key wasn't specified or cannot be used in current environment.");
+        catch (error) {
+            console.warn(`Unable to initialize AppInsights. ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Creates and loads App Insights client.
+     * @param config {IConfiguration & IConfig} Configuration of the client.
+     */
+    protected createClient(config: IConfiguration & IConfig): IApplicationInsights {
+        const appInsights = new ApplicationInsights({ config: config });
+        appInsights.loadAppInsights();
+
+        return appInsights;
+    }
+
+    /**
+     * Returns host name of current environment.
+     */
+    protected getHostname(): string {
+        return globalThis.location?.hostname || "";
+    }
+
+    /**
+     * Checks if host name matches the pattern, e.g. "www.contoso.com" matches "*.contoso.com".
+     */
+    private matchesHost(hostname: string, pattern: string): boolean {
+        hostname = hostname.toLowerCase();
+        pattern = pattern.toLowerCase();
+
+        if (pattern === "*") {
+            return true;
+        }
+
+        if (pattern.startsWith("*.")) {
+            return hostname.endsWith(pattern.substring(1));
         }
 
-        this.trackSession();
+        return hostname === pattern;
     }
 
     public async trackSession(): Promise<void> {
-        this.trackEvent(`Session started`);
+        await this.trackEvent(`Session started`);
     }
 
     public async trackEvent(eventName: string, properties?: Bag<string>): Promise<void> {
-        AppInsights.trackEvent(eventName, properties);
+        const client = await this.initialize();
+        client?.trackEvent({ name: eventName }, properties);
     }
 
     public async trackError(error: Error, properties?: Bag<string>): Promise<void> {
-        AppInsights.trackException(error, properties?.handledAt, properties);
+        const client = await this.initialize();
+        client?.trackException({ exception: error, properties: properties });
     }
 
     public async trackView(name: string, properties?: Bag<string>): Promise<void> {
-        AppInsights.trackPageView(name, null, properties);
+        const client = await this.initialize();
+        client?.trackPageView({ name: name, properties: properties });
     }
 
-    public async trackMetric(name: string, properties?: Bag<string>): Promise<void> {
-        // Not supported
+    /**
+     * Tracks metric value, e.g. `trackMetric("Publishing duration", { value: 1250 })`.
+     * @param name {string} Name of the metric.
+     * @param properties {MetricProperties} Value of the metric and custom properties.
+     */
+    public async trackMetric(name: string, properties?: Bag<string> | MetricProperties): Promise<void> {
+        const client = await this.initialize();
+
+        if (!client) {
+            return;
+        }
+
+        const { value, count, min, max, ...customProperties } = toPropertyBag(properties);
+        const average = toNumber(value);
+
+        if (average === undefined) {
+            console.warn(`Metric "${name}" skipped: value "${value}" isn't a number.`);
+            return;
+        }
+
+        client.trackMetric({
+            name: name,
+            average: average,
+            sampleCount: toNumber(count),
+            min: toNumber(min),
+            max: toNumber(max)
+        }, toCustomProperties(customProperties));
     }
 
-    public async trackDependency(name: string, properties?: Bag<string>): Promise<void> {
-        // Not supported
+    /**
+     * Tracks call to external dependency, e.g. `trackDependency("GET /pages", { target: "api.contoso.com", duration: 120, resultCode: 200 })`.
+     * @param name {string} Name of the call.
+     * @param properties {DependencyProperties} Details of the call and custom properties.
+     */
+    public async trackDependency(name: string, properties?: Bag<string> | DependencyProperties): Promise<void> {
+        const client = await this.initialize();
+
+        if (!client) {
+            return;
+        }
+
+        const { target, duration, success, resultCode, type, data, ...customProperties } = toPropertyBag(properties);
+        const responseCode = toNumber(resultCode);
+
+        client.trackDependencyData({
+            id: newTelemetryId(),
+            name: name,
+            target: toText(target),
+            duration: toNumber(duration),
+            success: toBoolean(success) ?? (responseCode === undefined || responseCode < 400),
+            responseCode: responseCode ?? 0,
+            type: toText(type),
+            data: toText(data),
+            properties: toCustomProperties(customProperties)
+        });
     }
 }
\ No newline at end of file
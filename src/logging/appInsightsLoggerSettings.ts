@@ -0,0 +1,40 @@
+/**
+ * Settings of App Insights logger, read from "appInsights" setting.
+ */
+export interface AppInsightsLoggerSettings {
+    /**
+     * Connection string of App Insights resource, e.g. "InstrumentationKey=...;IngestionEndpoint=https://...".
+     */
+    connectionString?: string;
+
+    /**
+     * Instrumentation key of App Insights resource. Deprecated in favor of connection string.
+     */
+    instrumentationKey?: string;
+
+    /**
+     * Ingestion endpoint overriding the one of connection string, e.g. "https://dc.applicationinsights.azure.us".
+     */
+    ingestionEndpoint?: string;
+
+    /**
+     * Host names of environments where telemetry gets collected, e.g. ["www.contoso.com", "*.azurewebsites.net"].
+     * Wildcard "*" matches any host name. Defaults to ["*.net"].
+     */
+    allowedHosts?: string[];
+
+    /**
+     * Percentage of telemetry items sent to App Insights, from 0 to 100. Defaults to 100.
+     */
+    samplingPercentage?: number;
+
+    /**
+     * Cloud role name reported with telemetry, e.g. "paperbits-website".
+     */
+    cloudRoleName?: string;
+
+    /**
+     * Cloud role instance reported with telemetry, e.g. "westeurope-1".
+     */
+    cloudRoleInstance?: string;
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * Properties of dependency call tracked with `trackDependency`. Numeric and boolean values may be passed
+ * as strings, any other properties are reported as custom dimensions.
+ */
+export interface DependencyProperties {
+    /**
+     * Target of the call, e.g. host name "api.contoso.com".
+     */
+    target?: string;
+
+    /**
+     * Duration of the call in milliseconds.
+     */
+    duration?: number | string;
+
+    /**
+     * Indicates if the call succeeded. Defaults to `true` for result codes below 400.
+     */
+    success?: boolean | string;
+
+    /**
+     * Result code of the call, e.g. HTTP status code 200.
+     */
+    resultCode?: number | string;
+
+    /**
+     * Type of the dependency, e.g. "HTTP" or "Azure blob".
+     */
+    type?: string;
+
+    /**
+     * Command initiating the call, e.g. URL "GET https://api.contoso.com/pages".
+     */
+    data?: string;
+
+    [customProperty: string]: unknown;
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * Properties of metric tracked with `trackMetric`. Numeric values may be passed as strings,
+ * any other properties are reported as custom dimensions.
+ */
+export interface MetricProperties {
+    /**
+     * Value of the metric, or average of aggregated values, e.g. 42.
+     */
+    value: number | string;
+
+    /**
+     * Number of aggregated values. Defaults to 1.
+     */
+    count?: number | string;
+
+    /**
+     * Minimum of aggregated values.
+     */
+    min?: number | string;
+
+    /**
+     * Maximum of aggregated values.
+     */
+    max?: number | string;
+
+    [customProperty: string]: unknown;
+}
\ No newline at end of file
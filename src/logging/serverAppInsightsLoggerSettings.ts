@@ -0,0 +1,32 @@
+import { AppInsightsLoggerSettings } from "./appInsightsLoggerSettings";
+
+/**
+ * Settings of server-side App Insights logger, read from "appInsights" setting. Host allowlist doesn't apply.
+ */
+export interface ServerAppInsightsLoggerSettings extends AppInsightsLoggerSettings {
+    /**
+     * Number of telemetry items triggering immediate flush. Defaults to 100.
+     */
+    maxBatchSize?: number;
+
+    /**
+     * Interval of flushing telemetry items in milliseconds. Defaults to 15000.
+     */
+    flushIntervalInMs?: number;
+
+    /**
+     * Number of retries of failed transmission before the batch gets buffered to disk. Defaults to 3.
+     */
+    maxRetries?: number;
+
+    /**
+     * Delay before the first retry in milliseconds, doubled with each next retry. Defaults to 1000.
+     */
+    retryDelayInMs?: number;
+
+    /**
+     * Folder buffering telemetry which couldn't be sent, e.g. when offline. Defaults to "paperbits-telemetry"
+     * folder in the temp directory.
+     */
+    offlineStoragePath?: string;
+}
\ No newline at end of file
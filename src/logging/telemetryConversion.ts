@@ -0,0 +1,82 @@
+import { Bag } from "@paperbits/common";
+
+/**
+ * Returns telemetry properties as a bag, or empty bag if they aren't an object (e.g. a string passed by mistake).
+ * @param properties {unknown} Properties passed to logger.
+ */
+export function toPropertyBag(properties: unknown): Bag<unknown> {
+    if (!properties || typeof properties !== "object" || Array.isArray(properties)) {
+        return {};
+    }
+
+    return <Bag<unknown>>properties;
+}
+
+/**
+ * Converts custom properties to strings expected by App Insights, skipping empty ones.
+ * @param properties {Bag<unknown>} Custom properties.
+ */
+export function toCustomProperties(properties: Bag<unknown>): Bag<string> {
+    const customProperties: Bag<string> = {};
+
+    for (const [key, value] of Object.entries(properties)) {
+        if (value === undefined || value === null) {
+            continue;
+        }
+
+        if (typeof value !== "object") {
+            customProperties[key] = String(value);
+            continue;
+        }
+
+        try {
+            customProperties[key] = JSON.stringify(value);
+        }
+        catch (error) {
+            customProperties[key] = String(value); // e.g. circular structure
+        }
+    }
+
+    return customProperties;
+}
+
+/**
+ * Converts the value to a finite number, e.g. "42.5" to 42.5.
+ * @returns Number, or `undefined` if the value isn't numeric.
+ */
+export function toNumber(value: unknown): number {
+    const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    return typeof number === "number" && isFinite(number) ? number : undefined;
+}
+
+/**
+ * Converts the value to boolean, e.g. "true" to `true`.
+ * @returns Boolean, or `undefined` if the value isn't boolean.
+ */
+export function toBoolean(value: unknown): boolean {
+    if (typeof value === "boolean") {
+        return value;
+    }
+
+    if (typeof value === "string" && ["true", "false"].includes(value.trim().toLowerCase())) {
+        return value.trim().toLowerCase() === "true";
+    }
+
+    return undefined;
+}
+
+/**
+ * Converts primitive value to string.
+ * @returns String, or `undefined` if the value isn't primitive.
+ */
+export function toText(value: unknown): string {
+    return typeof value === "string" || typeof value === "number" || typeof value === "boolean" ? String(value) : undefined;
+}
+
+/**
+ * Generates random identifier of telemetry item, e.g. "3f2a9c0d1e4b5a67".
+ */
+export function newTelemetryId(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(8));
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
\ No newline at end of file
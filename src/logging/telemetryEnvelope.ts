@@ -0,0 +1,39 @@
+import { Bag } from "@paperbits/common";
+
+/**
+ * Telemetry item in the format accepted by App Insights ingestion endpoint.
+ */
+export interface TelemetryEnvelope {
+    /**
+     * Name of the envelope, e.g. "Microsoft.ApplicationInsights.{key}.Event".
+     */
+    name: string;
+
+    /**
+     * Time of the event in ISO 8601 format.
+     */
+    time: string;
+
+    /**
+     * Instrumentation key of App Insights resource.
+     */
+    iKey: string;
+
+    /**
+     * Percentage of sampled telemetry items, which the item represents.
+     */
+    sampleRate: number;
+
+    /**
+     * Context tags, e.g. "ai.cloud.role".
+     */
+    tags: Bag<string>;
+
+    /**
+     * Telemetry data, e.g. `{ baseType: "EventData", baseData: { ver: 2, name: "Session started" } }`.
+     */
+    data: {
+        baseType: string;
+        baseData: Bag<unknown>;
+    };
+}
\ No newline at end of file
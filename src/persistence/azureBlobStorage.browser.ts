@@ -1,7 +1,30 @@
+import { Bag } from "@paperbits/common";
 import { ISettingsProvider } from "@paperbits/common/configuration";
 import { Logger } from "@paperbits/common/logging";
-import { ContainerClient } from "@azure/storage-blob";
+import { AnonymousCredential, BlockBlobClient, ContainerClient, RestError } from "@azure/storage-blob";
 import { AzureBlobStorage } from "./azureBlobStorage";
+import { BlobDownloadOptions } from "./blobDownloadOptions";
+import { BlobDownloadStream } from "./blobDownloadStream";
+import { BlobEncryptionKeyProvider } from "./blobEncryptionKeyProvider";
+import { classifyBlobError } from "./blobErrorClassifier";
+import { BlobRetrySettings } from "./blobRetrySettings";
+import { BlobTelemetrySettings } from "./blobTelemetrySettings";
+import { ChunkedUploadOptions } from "./chunkedUploadOptions";
+
+/**
+ * Default size of blocks staged by chunked uploads.
+ */
+const defaultBlockSize = 4 * 1024 * 1024;
+
+/**
+ * Default number of blocks staged in parallel by chunked uploads.
+ */
+const defaultUploadConcurrency = 4;
+
+/**
+ * Maximum number of blocks in a block blob.
+ */
+const maxBlockCount = 50000;
 
 /**
  * Azure blob storage client for browser client.
@@ -31,14 +54,202 @@ export class BrowserAzureBlobStorage extends AzureBlobStorage {
     protected override async initContainer(): Promise<void> {
         const blobStorageBasePath = await this.settingsProvider.getSetting<string>("blobStorageBasePath") || "";
         this.basePath = this.normalizePath(blobStorageBasePath);
+        this.cacheControlRules = await this.settingsProvider.getSetting<Bag<string>>("blobStorageCacheControl");
+        this.snapshotOnOverwrite = !!await this.settingsProvider.getSetting<boolean>("blobStorageSnapshotOnOverwrite");
+        this.telemetrySettings = await this.settingsProvider.getSetting<BlobTelemetrySettings>("blobStorageTelemetry") || {};
+
+        this.configureEncryption(
+            await this.settingsProvider.getSetting<string>("blobStorageEncryptionScope"),
+            await this.settingsProvider.getSetting<BlobEncryptionKeyProvider>("blobStorageEncryptionKeyProvider"));
 
         const blobStorageUrl = await this.settingsProvider.getSetting<string>("blobStorageUrl");
 
         if (blobStorageUrl) {
-            this.containerClient = new ContainerClient(blobStorageUrl);
+            const pipelineOptions = this.getPipelineOptions(
+                await this.settingsProvider.getSetting<BlobRetrySettings>("blobStorageRetry"),
+                await this.settingsProvider.getSetting<number>("blobStorageTimeout"));
+
+            this.containerClient = new ContainerClient(blobStorageUrl, new AnonymousCredential(), pipelineOptions);
             return;
         }
 
         throw new Error(`Setting "blobStorageConnectionString" or "blobStorageUrl" required to initialize AzureBlobStorage.`);
     }
+
+    /**
+     * Uploads `Blob` or `File` in staged blocks, reading only the blocks being uploaded into memory.
+     * Upload interrupted by failure or cancellation gets resumed from the staged blocks of the same content.
+     * @param blobKey {string} Blob key.
+     * @param file {Blob} Content, e.g. file selected by user.
+     * @param options {ChunkedUploadOptions} Block size, parallelism, cancellation and progress options.
+     */
+    public async uploadFile(blobKey: string, file: Blob, options: ChunkedUploadOptions = {}): Promise<void> {
+        await this.initialize();
+
+        blobKey = this.getFullKey(blobKey);
+
+        const blockSize = options.blockSize || defaultBlockSize;
+        const blockCount = Math.max(Math.ceil(file.size / blockSize), 1);
+
+        if (blockCount > maxBlockCount) {
+            throw new Error(`Unable to upload blob ${blobKey}: ${blockCount} blocks exceed limit of ${maxBlockCount}, increase block size.`);
+        }
+
+        const contentType = options.contentType || file.type || this.getContentType(blobKey);
+        const blockBlobClient = this.containerClient.getBlockBlobClient(blobKey);
+        const blockIndexes = Array.from({ length: blockCount }, (_, index) => index);
+        const blockIds: string[] = [];
+
+        const stagedBlocks = options.resume === false
+            ? new Map<string, number>()
+            : await this.getStagedBlocks(blockBlobClient);
+
+        let loadedBytes = 0;
+        const reportProgress = () => options.onProgress?.({ loadedBytes: loadedBytes, totalBytes: file.size });
+        reportProgress();
+
+        await this.trackOperation("uploadFile", blobKey, async (telemetry) => {
+            telemetry.size = file.size;
+
+            await this.snapshotBeforeOverwrite(blobKey);
+
+            try {
+                const customerProvidedKey = await this.getCustomerProvidedKey(blobKey);
+
+                for (const chunk of this.chunkArray(blockIndexes, options.concurrency || defaultUploadConcurrency)) {
+                    await Promise.all(chunk.map(async (index) => {
+                        options.abortSignal?.throwIfAborted();
+
+                        const blockContent = file.slice(index * blockSize, (index + 1) * blockSize);
+                        const buffer = new Uint8Array(await blockContent.arrayBuffer());
+                        blockIds[index] = await this.getBlockId(index, buffer);
+
+                        if (stagedBlocks.get(blockIds[index]) === buffer.byteLength) {
+                            loadedBytes += buffer.byteLength;
+                            reportProgress();
+                            return;
+                        }
+
+                        let blockLoadedBytes = 0;
+
+                        await blockBlobClient.stageBlock(blockIds[index], buffer, buffer.byteLength, {
+                            abortSignal: options.abortSignal,
+                            customerProvidedKey: customerProvidedKey,
+                            encryptionScope: this.encryptionScope,
+                            onProgress: (progress) => {
+                                loadedBytes += progress.loadedBytes - blockLoadedBytes;
+                                blockLoadedBytes = progress.loadedBytes;
+                                reportProgress();
+                            }
+                        });
+
+                        loadedBytes += buffer.byteLength - blockLoadedBytes;
+                        reportProgress();
+                    }));
+                }
+
+                const response = await blockBlobClient.commitBlockList(blockIds, {
+                    abortSignal: options.abortSignal,
+                    blobHTTPHeaders: this.getBlobHttpHeaders(blobKey, contentType, undefined),
+                    customerProvidedKey: customerProvidedKey,
+                    encryptionScope: this.encryptionScope
+                });
+
+                telemetry.statusCode = response._response.status;
+            }
+            catch (error) {
+                if (options.abortSignal?.aborted) {
+                    throw error;
+                }
+                throw classifyBlobError(blobKey, error, `Unable to upload blob ${blobKey}.`);
+            }
+        });
+    }
+
+    /**
+     * Starts streaming download of a blob, or its range, using `fetch`, so that content is not buffered
+     * into a `Blob` as it happens with downloads through storage client in browser.
+     * @param blobKey {string} Blob key.
+     * @param options {BlobDownloadOptions} Range and conditions.
+     */
+    public async downloadBlobStream(blobKey: string, options: BlobDownloadOptions = {}): Promise<BlobDownloadStream<ReadableStream<Uint8Array>>> {
+        const downloadUrl = await this.getDownloadUrl(blobKey);
+        const headers: Record<string, string> = {};
+
+        if (options.offset || options.count) {
+            const offset = options.offset || 0;
+            headers["Range"] = `bytes=${offset}-${options.count ? offset + options.count - 1 : ""}`;
+        }
+
+        if (options.ifNoneMatch) {
+            headers["If-None-Match"] = options.ifNoneMatch;
+        }
+
+        if (options.ifModifiedSince) {
+            headers["If-Modified-Since"] = options.ifModifiedSince.toUTCString();
+        }
+
+        const customerProvidedKey = await this.getCustomerProvidedKey(this.getFullKey(blobKey));
+
+        if (customerProvidedKey) {
+            headers["x-ms-encryption-key"] = customerProvidedKey.encryptionKey;
+            headers["x-ms-encryption-key-sha256"] = customerProvidedKey.encryptionKeySha256;
+            headers["x-ms-encryption-algorithm"] = customerProvidedKey.encryptionAlgorithm;
+        }
+
+        const response = await fetch(downloadUrl, { headers: headers });
+
+        if (!response.ok && response.status !== 304) {
+            await response.body?.cancel();
+            const error = new RestError(`Unable to download blob ${blobKey}. Status code: ${response.status}`, { statusCode: response.status, code: response.headers.get("x-ms-error-code") });
+            throw classifyBlobError(this.getFullKey(blobKey), error, error.message);
+        }
+
+        const lastModified = response.headers.get("Last-Modified");
+        const contentLength = response.headers.get("Content-Length");
+
+        return {
+            statusCode: response.status,
+            stream: response.status === 304 ? null : response.body,
+            etag: response.headers.get("ETag"),
+            lastModified: lastModified ? new Date(lastModified) : null,
+            contentType: response.headers.get("Content-Type"),
+            contentLength: contentLength ? +contentLength : 0,
+            contentRange: response.headers.get("Content-Range"),
+            contentEncoding: null // fetch decodes content
+        };
+    }
+
+    /**
+     * Returns sizes of staged (uncommitted) blocks of a blob by block ID. Committed blocks are never reused,
+     * as they belong to content that is already in storage.
+     */
+    private async getStagedBlocks(blockBlobClient: BlockBlobClient): Promise<Map<string, number>> {
+        const stagedBlocks = new Map<string, number>();
+
+        try {
+            const blockList = await blockBlobClient.getBlockList("uncommitted");
+            blockList.uncommittedBlocks?.forEach(block => stagedBlocks.set(block.name, block.size));
+        }
+        catch (error) {
+            if (error?.statusCode !== 404) {
+                throw error;
+            }
+        }
+
+        return stagedBlocks;
+    }
+
+    /**
+     * Derives fixed-length block ID from block index and SHA-256 hash of block content,
+     * so that only blocks of the same content match across attempts.
+     */
+    private async getBlockId(index: number, blockContent: Uint8Array): Promise<string> {
+        const blockHash = new Uint8Array(await crypto.subtle.digest("SHA-256", blockContent)).subarray(0, 16);
+
+        let hex = "";
+        blockHash.forEach(byte => hex += byte.toString(16).padStart(2, "0"));
+
+        return btoa(`${index.toString().padStart(5, "0")}-${hex}`);
+    }
 }
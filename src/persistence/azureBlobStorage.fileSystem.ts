@@ -0,0 +1,396 @@
+import * as fs from "fs";
+import * as crypto from "crypto";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { Bag } from "@paperbits/common";
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { Logger } from "@paperbits/common/logging";
+import { AzureBlobStorage } from "./azureBlobStorage";
+import { assertBlobConditions, BlobConditions } from "./blobConditions";
+import { BlobFolderDeletionReport } from "./blobFolderDeletionReport";
+import { BlobListOptions, BlobListPage, paginateBlobKeys } from "./blobListPage";
+import { BlobNotFoundError } from "./blobNotFoundError";
+import { BlobProperties } from "./blobProperties";
+import { BlobUploadOptions } from "./blobUploadOptions";
+import { BlobVersion } from "./blobVersion";
+import { DownloadedBlob } from "./downloadedBlob";
+
+/**
+ * File system blob storage mimicking behavior of Azure blob storage client. Blobs of the container
+ * are kept as files in the folder "<blobStorageLocalPath>/<blobStorageContainer>".
+ */
+export class FileSystemAzureBlobStorage extends AzureBlobStorage {
+    protected containerPath: string;
+
+    /**
+     * Creates file system blob storage.
+     * @param settingsProvider {ISettingsProvider} Settings provider.
+     * @param logger {Logger} Logger.
+     */
+    constructor(
+        private readonly settingsProvider: ISettingsProvider,
+        protected readonly logger: Logger
+    ) {
+        super(logger);
+    }
+
+    protected override async initContainer(): Promise<void> {
+        const blobStorageBasePath = await this.settingsProvider.getSetting<string>("blobStorageBasePath") || "";
+        this.basePath = this.normalizePath(blobStorageBasePath);
+
+        const blobStorageLocalPath = await this.settingsProvider.getSetting<string>("blobStorageLocalPath");
+
+        if (!blobStorageLocalPath) {
+            throw new Error(`Setting "blobStorageLocalPath" required to initialize AzureBlobStorage.`);
+        }
+
+        const containerName = await this.settingsProvider.getSetting<string>("blobStorageContainer");
+
+        if (!containerName) {
+            throw new Error(`Setting "blobStorageContainer" required to initialize AzureBlobStorage.`);
+        }
+
+        this.containerPath = path.resolve(blobStorageLocalPath, containerName);
+    }
+
+    /**
+     * Returns array of keys for all the blobs in container or with specified prefix.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public override async listBlobs(blobPrefix: string = ""): Promise<string[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+
+        return this.listKeys(prefix);
+    }
+
+    /**
+     * Returns a page of blob keys with specified prefix.
+     * @param blobPrefix {string} Blob prefix (or folder in hierarchical mode).
+     * @param options {BlobListOptions} Page size, continuation token and listing mode.
+     */
+    public override async listBlobsPage(blobPrefix: string = "", options?: BlobListOptions): Promise<BlobListPage> {
+        await this.initialize();
+        const prefix = options?.hierarchical
+            ? this.getFolderPrefix(blobPrefix)
+            : this.getFullKey(blobPrefix);
+
+        return paginateBlobKeys(await this.listKeys(prefix), prefix, options);
+    }
+
+    /**
+     * Returns properties of all the blobs in container or with specified prefix.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public override async listBlobProperties(blobPrefix: string = ""): Promise<BlobProperties[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+        const keys = await this.listKeys(prefix);
+        const allProperties = [];
+
+        for (const key of keys) {
+            allProperties.push(await this.readBlobProperties(key));
+        }
+
+        return allProperties.filter(properties => !!properties);
+    }
+
+    /**
+     * Returns properties of a blob, or null if the blob doesn't exist. User metadata is not supported.
+     * @param blobKey {string} Blob key.
+     */
+    public override async getBlobProperties(blobKey: string): Promise<BlobProperties> {
+        await this.initialize();
+        return this.readBlobProperties(this.getFullKey(blobKey));
+    }
+
+    public override async setBlobMetadata(): Promise<void> {
+        throw new Error(`Blob metadata is not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async getBlobTags(): Promise<Bag<string>> {
+        throw new Error(`Blob tags are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async setBlobTags(): Promise<void> {
+        throw new Error(`Blob tags are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async findBlobsByTags(): Promise<string[]> {
+        throw new Error(`Blob tags are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    /**
+     * Uploads specified content into storage. Content type, HTTP headers and metadata are not persisted,
+     * content type gets inferred from file extension.
+     * @param blobKey {string} Blob key.
+     * @param content
+     * @param contentType
+     * @param options {BlobUploadOptions} Optional HTTP headers, metadata and conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
+     */
+    public override async uploadBlob(blobKey: string, content: Uint8Array, contentType?: string, options?: BlobUploadOptions): Promise<void> {
+        await this.initialize();
+
+        blobKey = this.getFullKey(blobKey);
+        const filePath = this.getFilePath(blobKey);
+
+        assertBlobConditions(blobKey, await this.getETag(filePath), options);
+
+        try {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, content);
+        }
+        catch (error) {
+            throw new Error(`Unable to upload blob ${blobKey}. ${error.stack || error.message}`);
+        }
+    }
+
+    /**
+     * Downloads blob content along with its ETag.
+     * @param blobKey {string} Blob key.
+     */
+    public override async downloadBlobWithETag(blobKey: string): Promise<DownloadedBlob> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const filePath = this.getFilePath(fullBlobKey);
+
+        try {
+            const etag = await this.getETag(filePath);
+            const buffer = await fs.promises.readFile(filePath);
+
+            return { content: new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength), etag: etag };
+        }
+        catch (error) {
+            if (error?.code === "ENOENT" || error?.code === "EISDIR") {
+                throw new BlobNotFoundError(fullBlobKey);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Downloads a range of blob content, reading only the requested part of the file.
+     * @param blobKey {string} Blob key.
+     * @param offset {number} Position of the first byte.
+     * @param count {number} Number of bytes, until the end of the blob if not specified.
+     */
+    public override async downloadBlobRange(blobKey: string, offset: number, count?: number): Promise<Uint8Array> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const filePath = this.getFilePath(fullBlobKey);
+        let fileHandle: fs.promises.FileHandle;
+
+        try {
+            fileHandle = await fs.promises.open(filePath, "r");
+        }
+        catch (error) {
+            if (error?.code === "ENOENT" || error?.code === "EISDIR") {
+                throw new BlobNotFoundError(fullBlobKey);
+            }
+            throw error;
+        }
+
+        try {
+            const stats = await fileHandle.stat();
+
+            this.assertRange(stats.size, offset);
+
+            const length = Math.max(Math.min(count || stats.size, stats.size - offset), 0);
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await fileHandle.read(buffer, 0, length, offset);
+
+            return new Uint8Array(buffer.buffer, buffer.byteOffset, bytesRead);
+        }
+        finally {
+            await fileHandle.close();
+        }
+    }
+
+    /**
+     * Generates file URL of a blob (without checking for its existence).
+     * @param blobKey {string} Blob key.
+     */
+    public override async getDownloadUrl(blobKey: string): Promise<string> {
+        await this.initialize();
+        const filePath = this.getFilePath(this.getFullKey(blobKey));
+
+        return pathToFileURL(filePath).href;
+    }
+
+    /**
+     * Removes specified blob from storage.
+     * @param blobKey {string} Blob key.
+     * @param conditions {BlobConditions} Optional conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
+     */
+    public override async deleteBlob(blobKey: string, conditions?: BlobConditions): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const filePath = this.getFilePath(fullBlobKey);
+        const etag = await this.getETag(filePath);
+
+        if (!etag) {
+            return; // blob was already deleted
+        }
+
+        assertBlobConditions(fullBlobKey, etag, conditions);
+
+        try {
+            await fs.promises.unlink(filePath);
+        }
+        catch (error) {
+            if (error?.code === "ENOENT") {
+                return; // blob was already deleted
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Removes blobs from storage with specified prefix.
+     * if prefix is empty then all blobs from container will be removed
+     * @param blobPrefix
+     * @returns Keys of deleted blobs and blobs which couldn't be deleted.
+     */
+    public override async deleteBlobFolder(blobPrefix: string): Promise<BlobFolderDeletionReport> {
+        await this.initialize();
+        const fullBlobPrefix = this.getFullKey(blobPrefix);
+        const keys = await this.listKeys(fullBlobPrefix);
+        const report: BlobFolderDeletionReport = { deleted: [], failed: [] };
+
+        for (const key of keys) {
+            try {
+                await fs.promises.unlink(this.getFilePath(key));
+                report.deleted.push(key);
+            }
+            catch (error) {
+                report.failed.push({ key: key, error: error.code || error.message });
+            }
+        }
+
+        return report;
+    }
+
+    public override async createBlobSnapshot(): Promise<string> {
+        throw new Error(`Blob snapshots are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async listBlobVersions(): Promise<BlobVersion[]> {
+        throw new Error(`Blob snapshots are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async downloadBlobVersion(): Promise<Uint8Array> {
+        throw new Error(`Blob snapshots are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async restoreBlobVersion(): Promise<void> {
+        throw new Error(`Blob snapshots are not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async undeleteBlob(): Promise<void> {
+        throw new Error(`Blob soft delete is not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public override async listDeletedBlobs(): Promise<string[]> {
+        throw new Error(`Blob soft delete is not supported by FileSystemAzureBlobStorage.`);
+    }
+
+    public async createContainer(): Promise<void> {
+        await this.initialize();
+        await fs.promises.mkdir(this.containerPath, { recursive: true });
+    }
+
+    public async deleteContainer(): Promise<void> {
+        await this.initialize();
+        await fs.promises.rm(this.containerPath, { recursive: true, force: true });
+    }
+
+    private getFilePath(fullBlobKey: string): string {
+        const filePath = path.resolve(this.containerPath, fullBlobKey);
+
+        if (!filePath.startsWith(this.containerPath + path.sep)) {
+            throw new Error(`Blob key ${fullBlobKey} points outside of the container.`);
+        }
+
+        return filePath;
+    }
+
+    private async readBlobProperties(fullBlobKey: string): Promise<BlobProperties> {
+        const filePath = this.getFilePath(fullBlobKey);
+        const etag = await this.getETag(filePath);
+
+        if (!etag) {
+            return null;
+        }
+
+        const stats = await fs.promises.stat(filePath);
+        const content = await fs.promises.readFile(filePath);
+
+        return {
+            key: fullBlobKey,
+            size: stats.size,
+            contentType: this.getContentType(fullBlobKey),
+            lastModified: stats.mtime,
+            etag: etag,
+            contentMD5: crypto.createHash("md5").update(content).digest("base64"),
+            metadata: {}
+        };
+    }
+
+    /**
+     * Derives ETag from modification time and size of the file, returns null if the file doesn't exist.
+     */
+    private async getETag(filePath: string): Promise<string> {
+        try {
+            const stats = await fs.promises.stat(filePath, { bigint: true });
+
+            if (!stats.isFile()) {
+                return null;
+            }
+
+            return `"0x${stats.mtimeNs.toString(16).toUpperCase()}${stats.size.toString(16).toUpperCase()}"`;
+        }
+        catch (error) {
+            if (error?.code === "ENOENT") {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async listKeys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        const folders = [this.containerPath];
+
+        while (folders.length > 0) {
+            const folder = folders.pop();
+            let entries: fs.Dirent[];
+
+            try {
+                entries = await fs.promises.readdir(folder, { withFileTypes: true });
+            }
+            catch (error) {
+                if (error?.code === "ENOENT") {
+                    continue;
+                }
+                throw error;
+            }
+
+            for (const entry of entries) {
+                const entryPath = path.join(folder, entry.name);
+
+                if (entry.isDirectory()) {
+                    folders.push(entryPath);
+                    continue;
+                }
+
+                const key = path.relative(this.containerPath, entryPath).split(path.sep).join("/");
+
+                if (key.startsWith(prefix)) {
+                    keys.push(key);
+                }
+            }
+        }
+
+        return keys.sort();
+    }
+}
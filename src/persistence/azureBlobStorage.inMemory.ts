@@ -0,0 +1,519 @@
+import { Bag } from "@paperbits/common";
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { Logger } from "@paperbits/common/logging";
+import { AzureBlobStorage } from "./azureBlobStorage";
+import { assertBlobConditions, BlobConditions } from "./blobConditions";
+import { BlobFolderDeletionReport } from "./blobFolderDeletionReport";
+import { BlobListOptions, BlobListPage, paginateBlobKeys } from "./blobListPage";
+import { BlobNotFoundError } from "./blobNotFoundError";
+import { BlobProperties } from "./blobProperties";
+import { BlobUploadOptions } from "./blobUploadOptions";
+import { BlobVersion, BlobVersionReference, sortBlobVersions } from "./blobVersion";
+import { DownloadedBlob } from "./downloadedBlob";
+
+/**
+ * Clause of blob tags query, e.g. `"kind" = 'media'`, optionally followed by AND.
+ */
+const tagClausePattern = /\s*(?:"([^"]*)"|([\w+\-./:]+))\s*=\s*'([^']*)'\s*(?:AND\b|$)/iy;
+
+interface InMemoryBlob {
+    content: Uint8Array;
+    contentType: string;
+    etag: string;
+    lastModified: Date;
+    metadata: Bag<string>;
+    tags: Bag<string>;
+}
+
+interface InMemorySnapshot {
+    snapshot: string;
+    blob: InMemoryBlob;
+}
+
+interface InMemoryDeletedBlob {
+    blob: InMemoryBlob;
+    snapshots: InMemorySnapshot[];
+}
+
+/**
+ * In-memory blob storage mimicking behavior of Azure blob storage client. Useful for tests and offline sessions.
+ * Deleted blobs are kept as if soft delete was enabled on storage account.
+ */
+export class InMemoryAzureBlobStorage extends AzureBlobStorage {
+    protected readonly blobs: Map<string, InMemoryBlob>;
+    protected readonly snapshots: Map<string, InMemorySnapshot[]>;
+    protected readonly deletedBlobs: Map<string, InMemoryDeletedBlob>;
+    private etagSequence: number;
+    private lastSnapshotTime: number;
+
+    /**
+     * Creates in-memory blob storage.
+     * @param settingsProvider {ISettingsProvider} Settings provider, only "blobStorageBasePath" and "blobStorageSnapshotOnOverwrite" settings are used.
+     * @param logger {Logger} Logger.
+     */
+    constructor(
+        private readonly settingsProvider: ISettingsProvider,
+        protected readonly logger: Logger
+    ) {
+        super(logger);
+        this.blobs = new Map();
+        this.snapshots = new Map();
+        this.deletedBlobs = new Map();
+        this.etagSequence = 0;
+        this.lastSnapshotTime = 0;
+    }
+
+    protected override async initContainer(): Promise<void> {
+        const blobStorageBasePath = await this.settingsProvider.getSetting<string>("blobStorageBasePath") || "";
+        this.basePath = this.normalizePath(blobStorageBasePath);
+        this.snapshotOnOverwrite = !!await this.settingsProvider.getSetting<boolean>("blobStorageSnapshotOnOverwrite");
+    }
+
+    /**
+     * Returns array of keys for all the blobs in container or with specified prefix.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public override async listBlobs(blobPrefix: string = ""): Promise<string[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+
+        return this.listKeys(prefix);
+    }
+
+    /**
+     * Returns a page of blob keys with specified prefix.
+     * @param blobPrefix {string} Blob prefix (or folder in hierarchical mode).
+     * @param options {BlobListOptions} Page size, continuation token and listing mode.
+     */
+    public override async listBlobsPage(blobPrefix: string = "", options?: BlobListOptions): Promise<BlobListPage> {
+        await this.initialize();
+        const prefix = options?.hierarchical
+            ? this.getFolderPrefix(blobPrefix)
+            : this.getFullKey(blobPrefix);
+
+        return paginateBlobKeys(this.listKeys(prefix), prefix, options);
+    }
+
+    /**
+     * Returns properties and metadata of all the blobs in container or with specified prefix.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public override async listBlobProperties(blobPrefix: string = ""): Promise<BlobProperties[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+
+        return this.listKeys(prefix).map(key => this.toBlobProperties(key, this.blobs.get(key)));
+    }
+
+    /**
+     * Returns properties and metadata of a blob, or null if the blob doesn't exist.
+     * @param blobKey {string} Blob key.
+     */
+    public override async getBlobProperties(blobKey: string): Promise<BlobProperties> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blob = this.blobs.get(fullBlobKey);
+
+        return blob ? this.toBlobProperties(fullBlobKey, blob) : null;
+    }
+
+    /**
+     * Replaces user metadata of a blob.
+     * @param blobKey {string} Blob key.
+     * @param metadata {Bag<string>} Metadata, e.g. `{ author: "john" }`.
+     * @param conditions {BlobConditions} Optional conditions, e.g. `ifMatch` with ETag of previously read blob.
+     */
+    public override async setBlobMetadata(blobKey: string, metadata: Bag<string>, conditions?: BlobConditions): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blob = this.getExistingBlob(fullBlobKey);
+
+        assertBlobConditions(fullBlobKey, blob.etag, conditions);
+
+        blob.metadata = { ...metadata };
+        blob.etag = this.createETag();
+        blob.lastModified = new Date();
+    }
+
+    /**
+     * Returns index tags of a blob.
+     * @param blobKey {string} Blob key.
+     */
+    public override async getBlobTags(blobKey: string): Promise<Bag<string>> {
+        await this.initialize();
+        const blob = this.getExistingBlob(this.getFullKey(blobKey));
+
+        return { ...blob.tags };
+    }
+
+    /**
+     * Replaces index tags of a blob.
+     * @param blobKey {string} Blob key.
+     * @param tags {Bag<string>} Tags, e.g. `{ kind: "media" }`.
+     */
+    public override async setBlobTags(blobKey: string, tags: Bag<string>): Promise<void> {
+        await this.initialize();
+        const blob = this.getExistingBlob(this.getFullKey(blobKey));
+
+        blob.tags = { ...tags };
+    }
+
+    /**
+     * Returns keys of the blobs (under base path) which tags match specified expression. Only equality
+     * clauses joined by AND are supported.
+     * @param tagFilterExpression {string} Expression, e.g. `kind = 'media' AND "owner" = 'john'`.
+     */
+    public override async findBlobsByTags(tagFilterExpression: string): Promise<string[]> {
+        await this.initialize();
+        const clauses = this.parseTagFilterExpression(tagFilterExpression);
+
+        return this.listKeys(this.getFolderPrefix(""))
+            .filter(key => clauses.every(([tagName, tagValue]) => this.blobs.get(key).tags[tagName] === tagValue));
+    }
+
+    /**
+     * Uploads specified content into storage.
+     * @param blobKey {string} Blob key.
+     * @param content
+     * @param contentType
+     * @param options {BlobUploadOptions} Optional HTTP headers, metadata and conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
+     */
+    public override async uploadBlob(blobKey: string, content: Uint8Array, contentType?: string, options?: BlobUploadOptions): Promise<void> {
+        await this.initialize();
+
+        blobKey = this.getFullKey(blobKey);
+
+        if (!contentType) {
+            contentType = this.getContentType(blobKey);
+        }
+
+        const existingBlob = this.blobs.get(blobKey);
+
+        assertBlobConditions(blobKey, existingBlob?.etag, options);
+
+        if (existingBlob && this.snapshotOnOverwrite) {
+            this.addSnapshot(blobKey, existingBlob);
+        }
+
+        this.blobs.set(blobKey, {
+            content: content.slice(),
+            contentType: contentType,
+            etag: this.createETag(),
+            lastModified: new Date(),
+            metadata: { ...options?.metadata },
+            tags: {}
+        });
+    }
+
+    /**
+     * Downloads blob content along with its ETag.
+     * @param blobKey {string} Blob key.
+     */
+    public override async downloadBlobWithETag(blobKey: string): Promise<DownloadedBlob> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blob = this.getExistingBlob(fullBlobKey);
+
+        return { content: blob.content.slice(), etag: blob.etag };
+    }
+
+    /**
+     * Downloads a range of blob content.
+     * @param blobKey {string} Blob key.
+     * @param offset {number} Position of the first byte.
+     * @param count {number} Number of bytes, until the end of the blob if not specified.
+     */
+    public override async downloadBlobRange(blobKey: string, offset: number, count?: number): Promise<Uint8Array> {
+        await this.initialize();
+        const blob = this.getExistingBlob(this.getFullKey(blobKey));
+
+        this.assertRange(blob.content.byteLength, offset);
+
+        return blob.content.slice(offset, count ? offset + count : undefined);
+    }
+
+    /**
+     * Returns data URL of a blob, or null if blob doesn't exist.
+     * @param blobKey {string} Blob key.
+     */
+    public override async getDownloadUrl(blobKey: string): Promise<string> {
+        await this.initialize();
+        const blob = this.blobs.get(this.getFullKey(blobKey));
+
+        if (!blob) {
+            return null;
+        }
+
+        return `data:${blob.contentType};base64,${this.toBase64(blob.content)}`;
+    }
+
+    /**
+     * Removes specified blob from storage.
+     * @param blobKey {string} Blob key.
+     * @param conditions {BlobConditions} Optional conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
+     */
+    public override async deleteBlob(blobKey: string, conditions?: BlobConditions): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blob = this.blobs.get(fullBlobKey);
+
+        if (!blob) {
+            return; // blob was already deleted
+        }
+
+        assertBlobConditions(fullBlobKey, blob.etag, conditions);
+        this.removeBlob(fullBlobKey);
+    }
+
+    /**
+     * Creates read-only snapshot of current blob content.
+     * @param blobKey {string} Blob key.
+     * @returns Snapshot timestamp.
+     */
+    public override async createBlobSnapshot(blobKey: string): Promise<string> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        return this.addSnapshot(fullBlobKey, this.getExistingBlob(fullBlobKey));
+    }
+
+    /**
+     * Returns current state and snapshots of a blob (including deleted ones), the current state first
+     * and then the newest first.
+     * @param blobKey {string} Blob key.
+     */
+    public override async listBlobVersions(blobKey: string): Promise<BlobVersion[]> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blob = this.blobs.get(fullBlobKey);
+        const deletedBlob = this.deletedBlobs.get(fullBlobKey);
+        const versions: BlobVersion[] = [];
+
+        if (blob) {
+            versions.push(this.toBlobVersion(fullBlobKey, blob, undefined, false));
+        }
+        else if (deletedBlob) {
+            versions.push(this.toBlobVersion(fullBlobKey, deletedBlob.blob, undefined, true));
+        }
+
+        for (const snapshot of this.snapshots.get(fullBlobKey) || []) {
+            versions.push(this.toBlobVersion(fullBlobKey, snapshot.blob, snapshot.snapshot, false));
+        }
+
+        for (const snapshot of deletedBlob?.snapshots || []) {
+            versions.push(this.toBlobVersion(fullBlobKey, snapshot.blob, snapshot.snapshot, true));
+        }
+
+        return sortBlobVersions(versions);
+    }
+
+    /**
+     * Downloads content of a blob snapshot.
+     * @param blobKey {string} Blob key.
+     * @param version {BlobVersionReference} Snapshot returned by `listBlobVersions`.
+     */
+    public override async downloadBlobVersion(blobKey: string, version: BlobVersionReference): Promise<Uint8Array> {
+        await this.initialize();
+        const snapshotBlob = this.getExistingSnapshot(this.getFullKey(blobKey), version);
+
+        return snapshotBlob.content.slice();
+    }
+
+    /**
+     * Promotes a snapshot to the current state of a blob.
+     * @param blobKey {string} Blob key.
+     * @param version {BlobVersionReference} Snapshot returned by `listBlobVersions`.
+     */
+    public override async restoreBlobVersion(blobKey: string, version: BlobVersionReference): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const snapshotBlob = this.getExistingSnapshot(fullBlobKey, version);
+        const existingBlob = this.blobs.get(fullBlobKey);
+
+        if (existingBlob && this.snapshotOnOverwrite) {
+            this.addSnapshot(fullBlobKey, existingBlob);
+        }
+
+        this.blobs.set(fullBlobKey, {
+            content: snapshotBlob.content.slice(),
+            contentType: snapshotBlob.contentType,
+            etag: this.createETag(),
+            lastModified: new Date(),
+            metadata: { ...snapshotBlob.metadata },
+            tags: {}
+        });
+    }
+
+    /**
+     * Restores deleted blob along with its snapshots.
+     * @param blobKey {string} Blob key.
+     */
+    public override async undeleteBlob(blobKey: string): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const deletedBlob = this.deletedBlobs.get(fullBlobKey);
+
+        if (!deletedBlob) {
+            this.getExistingBlob(fullBlobKey);
+            return; // nothing to restore
+        }
+
+        if (!this.blobs.has(fullBlobKey)) {
+            this.blobs.set(fullBlobKey, deletedBlob.blob);
+        }
+
+        this.snapshots.set(fullBlobKey, [...deletedBlob.snapshots, ...(this.snapshots.get(fullBlobKey) || [])]);
+        this.deletedBlobs.delete(fullBlobKey);
+    }
+
+    /**
+     * Returns keys of deleted blobs with specified prefix, which can be restored with `undeleteBlob`.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public override async listDeletedBlobs(blobPrefix: string = ""): Promise<string[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+
+        return Array.from(this.deletedBlobs.keys())
+            .filter(key => key.startsWith(prefix))
+            .sort();
+    }
+
+    /**
+     * Removes blobs from storage with specified prefix.
+     * if prefix is empty then all blobs from container will be removed
+     * @param blobPrefix
+     * @returns Keys of deleted blobs.
+     */
+    public override async deleteBlobFolder(blobPrefix: string): Promise<BlobFolderDeletionReport> {
+        await this.initialize();
+        const fullBlobPrefix = this.getFullKey(blobPrefix);
+        const keys = this.listKeys(fullBlobPrefix);
+
+        keys.forEach(key => this.removeBlob(key));
+
+        return { deleted: keys, failed: [] };
+    }
+
+    public async createContainer(): Promise<void> {
+        await this.initialize();
+    }
+
+    public async deleteContainer(): Promise<void> {
+        await this.initialize();
+        this.blobs.clear();
+        this.snapshots.clear();
+        this.deletedBlobs.clear();
+    }
+
+    private getExistingBlob(fullBlobKey: string): InMemoryBlob {
+        const blob = this.blobs.get(fullBlobKey);
+
+        if (!blob) {
+            throw new BlobNotFoundError(fullBlobKey);
+        }
+
+        return blob;
+    }
+
+    private getExistingSnapshot(fullBlobKey: string, version: BlobVersionReference): InMemoryBlob {
+        if (version?.versionId) {
+            throw new Error(`Blob versions are not supported by InMemoryAzureBlobStorage.`);
+        }
+
+        const snapshot = (this.snapshots.get(fullBlobKey) || []).find(existingSnapshot => existingSnapshot.snapshot === version?.snapshot);
+
+        if (!snapshot) {
+            throw new BlobNotFoundError(fullBlobKey);
+        }
+
+        return snapshot.blob;
+    }
+
+    private addSnapshot(fullBlobKey: string, blob: InMemoryBlob): string {
+        this.lastSnapshotTime = Math.max(Date.now(), this.lastSnapshotTime + 1); // unique even within the same millisecond
+
+        const snapshot = new Date(this.lastSnapshotTime).toISOString();
+        const snapshots = this.snapshots.get(fullBlobKey) || [];
+
+        snapshots.push({ snapshot: snapshot, blob: { ...blob, metadata: { ...blob.metadata }, tags: { ...blob.tags } } });
+        this.snapshots.set(fullBlobKey, snapshots);
+
+        return snapshot;
+    }
+
+    /**
+     * Moves blob and its snapshots aside, so that they can be restored.
+     */
+    private removeBlob(fullBlobKey: string): void {
+        const previouslyDeletedSnapshots = this.deletedBlobs.get(fullBlobKey)?.snapshots || [];
+
+        this.deletedBlobs.set(fullBlobKey, {
+            blob: this.blobs.get(fullBlobKey),
+            snapshots: [...previouslyDeletedSnapshots, ...(this.snapshots.get(fullBlobKey) || [])]
+        });
+
+        this.blobs.delete(fullBlobKey);
+        this.snapshots.delete(fullBlobKey);
+    }
+
+    private createETag(): string {
+        this.etagSequence += 1;
+        return `"0x${this.etagSequence.toString(16).toUpperCase()}"`;
+    }
+
+    private toBlobVersion(key: string, blob: InMemoryBlob, snapshot: string, isDeleted: boolean): BlobVersion {
+        return {
+            key: key,
+            snapshot: snapshot,
+            size: blob.content.byteLength,
+            lastModified: blob.lastModified,
+            etag: blob.etag,
+            isCurrent: !snapshot && !isDeleted,
+            isDeleted: isDeleted
+        };
+    }
+
+    private toBlobProperties(key: string, blob: InMemoryBlob): BlobProperties {
+        return {
+            key: key,
+            size: blob.content.byteLength,
+            contentType: blob.contentType,
+            lastModified: blob.lastModified,
+            etag: blob.etag,
+            contentMD5: null,
+            metadata: { ...blob.metadata }
+        };
+    }
+
+    /**
+     * Parses blob tags query into pairs of tag name and value.
+     * @param tagFilterExpression {string} Expression, e.g. `kind = 'media' AND "owner" = 'john'`.
+     */
+    private parseTagFilterExpression(tagFilterExpression: string): [string, string][] {
+        const clauses: [string, string][] = [];
+        tagClausePattern.lastIndex = 0;
+
+        while (tagClausePattern.lastIndex < tagFilterExpression.length) {
+            const match = tagClausePattern.exec(tagFilterExpression);
+
+            if (!match) {
+                throw new Error(`Unsupported blob tags query: ${tagFilterExpression}. Only clauses like "name" = 'value' joined by AND are supported.`);
+            }
+
+            clauses.push([match[1] ?? match[2], match[3]]);
+        }
+
+        if (clauses.length === 0) {
+            throw new Error(`Blob tags query is empty.`);
+        }
+
+        return clauses;
+    }
+
+    private listKeys(prefix: string): string[] {
+        return Array.from(this.blobs.keys())
+            .filter(key => key.startsWith(prefix))
+            .sort();
+    }
+}
@@ -1,22 +1,166 @@
-import * as mime from "mime";
+import * as crypto from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Bag } from "@paperbits/common";
 import { ISettingsProvider } from "@paperbits/common/configuration";
 import { Logger } from "@paperbits/common/logging";
+import {
+    ClientSecretCredential,
+    DefaultAzureCredential,
+    ManagedIdentityCredential,
+    TokenCredential,
+    WorkloadIdentityCredential
+} from "@azure/identity";
+import { PipelinePolicy, PipelineRequest } from "@azure/core-rest-pipeline";
 import {
     AnonymousCredential,
-    BlobBatch,
-    BlobItem,
+    BlobDownloadResponseParsed,
     BlobSASPermissions,
-    BlobServiceClient,
+    BlobItem,
+    BlobSASSignatureValues,
     BlockBlobClient,
-    ContainerClient
+    BlobServiceClient,
+    ContainerSASPermissions,
+    CorsRule,
+    Pipeline,
+    generateBlobSASQueryParameters,
+    newPipeline,
+    SASProtocol,
+    SasIPRange,
+    StaticWebsite,
+    StoragePipelineOptions,
+    StorageSharedKeyCredential,
+    UserDelegationKey
 } from "@azure/storage-blob";
 import { AzureBlobStorage } from "./azureBlobStorage";
+import { BlobCompressionSettings } from "./blobCompressionSettings";
+import { BlobConditions } from "./blobConditions";
+import { BlobConflictError } from "./blobConflictError";
+import { BlobDownloadOptions } from "./blobDownloadOptions";
+import { BlobDownloadStream } from "./blobDownloadStream";
+import { BlobEncryptionKeyProvider } from "./blobEncryptionKeyProvider";
+import { classifyBlobError } from "./blobErrorClassifier";
+import { BlobLock } from "./blobLock";
+import { BlobLockedError } from "./blobLockedError";
+import { BlobOperationTelemetry } from "./blobOperationTelemetry";
+import { BlobStorageError } from "./blobStorageError";
+import { BlobRetrySettings } from "./blobRetrySettings";
+import { BlobTelemetrySettings } from "./blobTelemetrySettings";
+import { BlobUploadOptions } from "./blobUploadOptions";
+import { DownloadedBlob } from "./downloadedBlob";
+import { EncodedContent } from "./encodedContent";
+import { SasOptions, SasSettings } from "./sasOptions";
+import { StaticSiteDeploymentOptions, StaticSiteDeploymentSummary } from "./staticSiteDeployment";
+import { StaticWebsiteSettings } from "./staticWebsiteSettings";
+import { TokenCredentialType } from "./tokenCredentialType";
+import { TrackedContainerClient } from "./trackedContainerClient";
 import { Readable } from "stream";
+import { promisify } from "util";
+import * as zlib from "zlib";
+
+/**
+ * Maximum size of a blob which can be copied synchronously, larger blobs get copied asynchronously.
+ */
+const maxSyncCopySize = 256 * 1024 * 1024;
+
+/**
+ * Number of blobs copied in parallel when copying folders.
+ */
+const copyConcurrency = 20;
+
+/**
+ * Default options of generated SAS URLs, overridden by "blobStorageSas" setting and per-call options.
+ */
+const defaultSasSettings: SasSettings = {
+    download: { permissions: "r", expiresInMinutes: 24 * 60 },
+    upload: { permissions: "cw", expiresInMinutes: 60 },
+    container: { permissions: "rl", expiresInMinutes: 60 }
+};
+
+/**
+ * Minutes SAS validity starts in the past to tolerate clock skew with server.
+ */
+const sasClockSkewMinutes = 5;
+
+/**
+ * Maximum validity period of user delegation key allowed by the service.
+ */
+const userDelegationKeyLifetimeDays = 7;
+
+/**
+ * Content types compressed by default when "blobStorageCompression" setting is specified.
+ */
+const defaultCompressedContentTypes = [
+    "text/*",
+    "application/json",
+    "application/javascript",
+    "application/xml",
+    "application/manifest+json",
+    "image/svg+xml"
+];
+
+/**
+ * Default minimal size of compressed content in bytes.
+ */
+const defaultCompressionMinSize = 1024;
+
+/**
+ * Number of files processed in parallel during deployment of a folder.
+ */
+const deploymentConcurrency = 8;
+
+/**
+ * Maximum size of a deployed file uploaded from memory, larger files get streamed.
+ */
+const maxBufferedDeploymentFileSize = 32 * 1024 * 1024;
+
+/**
+ * Metadata entry keeping MD5 hash of deployed file, as content stored in blob may differ (e.g. compressed)
+ * and blobs uploaded in blocks don't get Content-MD5 property.
+ */
+const sourceMD5MetadataKey = "sourcemd5";
+
+/**
+ * HTTP methods allowed by CORS rule, covering all the operations of browser client.
+ */
+const corsAllowedMethods = "DELETE,GET,HEAD,MERGE,OPTIONS,POST,PUT";
+
+/**
+ * Time in seconds browsers may cache CORS preflight responses.
+ */
+const corsMaxAgeInSeconds = 3600;
+
+/**
+ * Folder of lock blobs (under base path).
+ */
+const lockFolder = ".locks";
+
+/**
+ * Default lease duration of locks in seconds.
+ */
+const defaultLockDurationInSeconds = 60;
+
+/**
+ * Metadata entries of lock blob describing the lock holder.
+ */
+const lockHolderMetadataKey = "lockholder";
+const lockAcquiredOnMetadataKey = "lockacquiredon";
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
 
 /**
  * Azure blob storage client.
  */
 export class ServerAzureBlobStorage extends AzureBlobStorage {
+    protected blobServiceClient: BlobServiceClient;
+    protected sasSettings: SasSettings;
+    protected compressionSettings: BlobCompressionSettings;
+    private userDelegationKey: UserDelegationKey;
+    private readonly operationScope = new AsyncLocalStorage<BlobOperationTelemetry>();
+
     /**
      * Creates Azure blob storage client.
      * @param storageURL Storage URL containing SAS key.
@@ -32,6 +176,19 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
     protected override async initContainer(): Promise<void> {
         const blobStorageBasePath = await this.settingsProvider.getSetting<string>("blobStorageBasePath") || "";
         this.basePath = this.normalizePath(blobStorageBasePath);
+        this.sasSettings = await this.settingsProvider.getSetting<SasSettings>("blobStorageSas") || {};
+        this.compressionSettings = await this.settingsProvider.getSetting<BlobCompressionSettings>("blobStorageCompression");
+        this.cacheControlRules = await this.settingsProvider.getSetting<Bag<string>>("blobStorageCacheControl");
+        this.snapshotOnOverwrite = !!await this.settingsProvider.getSetting<boolean>("blobStorageSnapshotOnOverwrite");
+        this.telemetrySettings = await this.settingsProvider.getSetting<BlobTelemetrySettings>("blobStorageTelemetry") || {};
+
+        this.configureEncryption(
+            await this.settingsProvider.getSetting<string>("blobStorageEncryptionScope"),
+            await this.settingsProvider.getSetting<BlobEncryptionKeyProvider>("blobStorageEncryptionKeyProvider"));
+
+        const pipelineOptions: StoragePipelineOptions = this.getPipelineOptions(
+            await this.settingsProvider.getSetting<BlobRetrySettings>("blobStorageRetry"),
+            await this.settingsProvider.getSetting<number>("blobStorageTimeout"));
 
         const blobStorageConnectionString = await this.settingsProvider.getSetting<string>("blobStorageConnectionString");
 
@@ -42,82 +199,146 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
                 throw new Error(`Setting "blobStorageContainer" required to initialize AzureBlobStorage.`);
             }
 
-            const serviceClient = BlobServiceClient.fromConnectionString(blobStorageConnectionString);
+            const { url, credential } = BlobServiceClient.fromConnectionString(blobStorageConnectionString);
+            this.initServiceClients(url, newPipeline(credential, pipelineOptions), containerName);
+            return;
+        }
+
+        const blobStorageAccountUrl = await this.settingsProvider.getSetting<string>("blobStorageAccountUrl");
+
+        if (blobStorageAccountUrl) {
+            const containerName = await this.settingsProvider.getSetting<string>("blobStorageContainer");
 
-            this.containerClient = serviceClient.getContainerClient(containerName);
-            this.blobBatchClient = serviceClient.getBlobBatchClient();
+            if (!containerName) {
+                throw new Error(`Setting "blobStorageContainer" required to initialize AzureBlobStorage.`);
+            }
+
+            const tokenCredential = await this.createTokenCredential();
+
+            this.initServiceClients(blobStorageAccountUrl, newPipeline(tokenCredential, pipelineOptions), containerName);
             return;
         }
 
         const blobStorageUrl = await this.settingsProvider.getSetting<string>("blobStorageUrl");
 
         if (blobStorageUrl) {
-            this.containerClient = new ContainerClient(blobStorageUrl);
+            this.containerClient = new TrackedContainerClient(blobStorageUrl, newPipeline(new AnonymousCredential(), pipelineOptions), this.createTelemetryPolicy());
             return;
         }
 
-        throw new Error(`Setting "blobStorageConnectionString" or "blobStorageUrl" required to initialize AzureBlobStorage.`);
+        throw new Error(`Setting "blobStorageConnectionString", "blobStorageAccountUrl" or "blobStorageUrl" required to initialize AzureBlobStorage.`);
+    }
+
+    /**
+     * Creates account-level clients sharing one pipeline, which includes telemetry policy.
+     * @param accountUrl {string} URL of the storage account, optionally with SAS.
+     * @param pipeline {Pipeline} Pipeline created with newPipeline(...).
+     * @param containerName {string} Name of the container.
+     */
+    private initServiceClients(accountUrl: string, pipeline: Pipeline, containerName: string): void {
+        this.blobServiceClient = new BlobServiceClient(accountUrl, pipeline);
+        this.containerClient = new TrackedContainerClient(this.blobServiceClient.getContainerClient(containerName).url, pipeline, this.createTelemetryPolicy());
+        this.blobBatchClient = this.blobServiceClient.getBlobBatchClient();
+    }
+
+    /**
+     * Ensures that a blob can be accessed with URL only, which is not the case for blobs encrypted with customer-provided key.
+     */
+    private assertUrlAccessible(blobName: string): void {
+        if (this.encryptionKeyProvider) {
+            throw new Error(`Unable to generate URL of blob ${blobName}: blobs encrypted with customer-provided key can't be accessed without the key.`);
+        }
+    }
+
+    /**
+     * Returns Azure AD credential injected with "blobStorageTokenCredential" setting, or creates one
+     * of the kind specified in "blobStorageCredentialType" setting.
+     */
+    protected async createTokenCredential(): Promise<TokenCredential> {
+        const tokenCredential = await this.settingsProvider.getSetting<TokenCredential>("blobStorageTokenCredential");
+
+        if (tokenCredential) {
+            return tokenCredential;
+        }
+
+        const tenantId = await this.settingsProvider.getSetting<string>("blobStorageTenantId");
+        const clientId = await this.settingsProvider.getSetting<string>("blobStorageClientId");
+        const clientSecret = await this.settingsProvider.getSetting<string>("blobStorageClientSecret");
+        const tokenFilePath = await this.settingsProvider.getSetting<string>("blobStorageFederatedTokenFile");
+        const credentialType = await this.settingsProvider.getSetting<TokenCredentialType>("blobStorageCredentialType")
+            || (clientSecret ? "clientSecret" : "default");
+
+        switch (credentialType) {
+            case "clientSecret":
+                if (!tenantId || !clientId || !clientSecret) {
+                    throw new Error(`Settings "blobStorageTenantId", "blobStorageClientId" and "blobStorageClientSecret" required to initialize AzureBlobStorage with client secret.`);
+                }
+                return new ClientSecretCredential(tenantId, clientId, clientSecret);
+
+            case "workloadIdentity":
+                return new WorkloadIdentityCredential({ tenantId: tenantId, clientId: clientId, tokenFilePath: tokenFilePath });
+
+            case "managedIdentity":
+                return new ManagedIdentityCredential({ clientId: clientId });
+
+            case "default":
+                return new DefaultAzureCredential({ tenantId: tenantId, managedIdentityClientId: clientId, workloadIdentityClientId: clientId });
+
+            default:
+                throw new Error(`Unsupported credential type "${credentialType}" in setting "blobStorageCredentialType".`);
+        }
     }
 
     /**
      * Generates download URL of a blob (without checking for its existence).
      * @param blobKey {string} Blob key.
+     * @param options {SasOptions} SAS options overriding "download" options of "blobStorageSas" setting.
      */
-    public override async getDownloadUrl(blobKey: string): Promise<string> {
+    public override async getDownloadUrl(blobKey: string, options?: SasOptions): Promise<string> {
         await this.initialize();
         const blobName = this.getFullKey(blobKey);
+        this.assertUrlAccessible(blobName);
 
-        try {
-            const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+        const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+        const sasToken = await this.generateSasToken(blobName, this.getSasOptions("download", options));
 
-            if (!(this.containerClient.credential instanceof AnonymousCredential) && BlobSASPermissions) {
-                const now = new Date();
-                now.setMinutes(now.getMinutes() - 5); // Skip clock skew with server
+        return sasToken ? `${blockBlobClient.url}?${sasToken}` : blockBlobClient.url;
+    }
 
-                const expireOn = new Date();
-                expireOn.setDate(expireOn.getDate() + 1);  // temp access for 1 day   
+    /**
+     * Generates URL that allows clients (e.g. browsers) to upload a blob directly into storage
+     * with `PUT` request carrying `x-ms-blob-type: BlockBlob` header.
+     * @param blobKey {string} Blob key.
+     * @param options {SasOptions} SAS options overriding "upload" options of "blobStorageSas" setting.
+     */
+    public async getUploadUrl(blobKey: string, options?: SasOptions): Promise<string> {
+        await this.initialize();
+        const blobName = this.getFullKey(blobKey);
+        this.assertUrlAccessible(blobName);
 
-                const sasOptions = {
-                    containerName: this.containerClient.containerName,
-                    startsOn: now,
-                    expiresOn: expireOn,
-                    blobName: blobName,
-                    permissions: BlobSASPermissions.parse("r")
-                };
+        const blockBlobClient = this.containerClient.getBlockBlobClient(blobName);
+        const sasToken = await this.generateSasToken(blobName, this.getSasOptions("upload", options));
 
-                const blobSasUrl = await blockBlobClient.generateSasUrl(sasOptions);
-                return blobSasUrl;
-            }
-            else {
-                return blockBlobClient.url;
-            }
-        }
-        catch (error) {
-            if (error && error.statusCode && error.statusCode === 404) {
-                return null; // blob was already deleted
-            }
-            throw error;
-        }
+        return sasToken ? `${blockBlobClient.url}?${sasToken}` : blockBlobClient.url;
     }
 
     /**
-     * Removes specified blob from storage.
-     * @param blobKey {string} Blob key.
+     * Generates container URL with SAS, suitable for "blobStorageUrl" setting of other clients. Refused when
+     * "blobStorageBasePath" is set, as the service doesn't support SAS scoped to a prefix of a flat namespace,
+     * so the token would grant access to the entire container rather than to the base path. Clients under
+     * base path should be given URLs of individual blobs with `getDownloadUrl` and `getUploadUrl` instead.
+     * @param options {SasOptions} SAS options overriding "container" options of "blobStorageSas" setting.
      */
-    public async deleteBlob(blobKey: string): Promise<void> {
+    public async getContainerUrl(options?: SasOptions): Promise<string> {
         await this.initialize();
 
-        try {
-            const fullBlobKey = this.getFullKey(blobKey);
-            const blockBlobClient = this.containerClient.getBlockBlobClient(fullBlobKey);
-            await blockBlobClient.delete();
-        }
-        catch (error) {
-            if (error?.statusCode === 404) {
-                return; // blob was already deleted
-            }
-            throw error;
+        if (this.basePath) {
+            throw new Error(`Unable to generate container URL: SAS would grant access beyond "blobStorageBasePath" setting. Use "getDownloadUrl" or "getUploadUrl" to grant access to individual blobs.`);
         }
+
+        const sasToken = await this.generateSasToken(null, this.getSasOptions("container", options));
+
+        return sasToken ? `${this.containerClient.url}?${sasToken}` : this.containerClient.url;
     }
 
     /**
@@ -129,7 +350,10 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
         const fullBlobKey = this.getFullKey(blobKey);
         const blockBlobClient = this.containerClient.getBlockBlobClient(fullBlobKey);
 
-        const downloadBlockBlobResponse = await blockBlobClient.download();
+        const downloadBlockBlobResponse = await blockBlobClient.download(0, undefined, {
+            customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+        });
+
         return downloadBlockBlobResponse.blobBody;
     }
 
@@ -138,46 +362,213 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
      * @param blobKey {string} Blob key.
      * @param content {ReadStream} Content stream.
      * @param contentType {string} Content type, e.g. `image/png`.
+     * @param options {BlobUploadOptions} Optional HTTP headers, metadata and conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
      */
-    public async uploadStreamToBlob(blobKey: string, contentStream: Readable, contentType?: string): Promise<void> {
+    public async uploadStreamToBlob(blobKey: string, contentStream: Readable, contentType?: string, options?: BlobUploadOptions): Promise<void> {
         await this.initialize();
 
         blobKey = this.getFullKey(blobKey);
 
         if (!contentType) {
-            const fileName = blobKey.split("/").pop();
-            contentType = mime.getType(fileName) || "application/octet-stream";
+            contentType = this.getContentType(blobKey);
         }
 
-        const blockBlobClient = this.containerClient.getBlockBlobClient(blobKey);
+        await this.trackOperation("uploadStreamToBlob", blobKey, async (telemetry) => {
+            await this.snapshotBeforeOverwrite(blobKey, options);
 
+            const blockBlobClient = this.containerClient.getBlockBlobClient(blobKey);
+            const compressionEncoding = this.getCompressionEncoding(contentType, null, options);
 
-        try {
-            await blockBlobClient.uploadStream(
-                contentStream,
-                4 * 1024 * 1024,
-                20,
-                {
-                    blobHTTPHeaders: { blobContentType: contentType }
-                }
-            );
+            if (compressionEncoding) {
+                const compressor = compressionEncoding === "br" ? zlib.createBrotliCompress() : zlib.createGzip();
+                contentStream.once("error", (error) => compressor.destroy(error));
+                contentStream = contentStream.pipe(compressor);
+            }
+
+            try {
+                await blockBlobClient.uploadStream(
+                    contentStream,
+                    4 * 1024 * 1024,
+                    20,
+                    {
+                        blobHTTPHeaders: this.getBlobHttpHeaders(blobKey, contentType, compressionEncoding || options?.contentEncoding, options),
+                        metadata: options?.metadata,
+                        conditions: { ifMatch: options?.ifMatch, ifNoneMatch: options?.ifNoneMatch },
+                        customerProvidedKey: await this.getCustomerProvidedKey(blobKey),
+                        encryptionScope: this.encryptionScope,
+                        onProgress: (progress) => telemetry.size = progress.loadedBytes
+                    }
+                );
+            }
+            catch (error) {
+                throw classifyBlobError(blobKey, error, `Unable to upload blob ${blobKey}.`);
+            }
+        });
+    }
+
+    /**
+     * Compresses text content according to "blobStorageCompression" setting.
+     * @param content {Uint8Array} Content.
+     * @param contentType {string} Content type.
+     * @param options {BlobUploadOptions} Upload options.
+     */
+    protected override async encodeContent(content: Uint8Array, contentType: string, options?: BlobUploadOptions): Promise<EncodedContent> {
+        const compressionEncoding = this.getCompressionEncoding(contentType, content.byteLength, options);
+
+        if (!compressionEncoding) {
+            return super.encodeContent(content, contentType, options);
         }
-        catch (error) {
-            throw new Error(`Unable to upload blob ${blobKey}. ${error.stack || error.message}`);
+
+        const compressedContent = compressionEncoding === "br"
+            ? await brotliCompress(content)
+            : await gzip(content);
+
+        return {
+            content: new Uint8Array(compressedContent.buffer, compressedContent.byteOffset, compressedContent.byteLength),
+            contentEncoding: compressionEncoding
+        };
+    }
+
+    /**
+     * Returns compression algorithm for uploaded content, or null if content shouldn't be compressed.
+     * @param contentType {string} Content type.
+     * @param contentLength {number} Size of content in bytes, or null if unknown (e.g. stream).
+     * @param options {BlobUploadOptions} Upload options.
+     */
+    protected getCompressionEncoding(contentType: string, contentLength: number, options?: BlobUploadOptions): "gzip" | "br" {
+        if (options?.contentEncoding || options?.compress === false || (!this.compressionSettings && !options?.compress)) {
+            return null;
         }
+
+        const compressionSettings = this.compressionSettings || {};
+
+        if (!options?.compress) {
+            const minSize = compressionSettings.minSize ?? defaultCompressionMinSize;
+
+            if (contentLength !== null && contentLength < minSize) {
+                return null;
+            }
+
+            const mediaType = contentType.split(";")[0].trim().toLowerCase();
+            const contentTypes = compressionSettings.contentTypes || defaultCompressedContentTypes;
+
+            const compressible = contentTypes.some(pattern => pattern.endsWith("/*")
+                ? mediaType.startsWith(pattern.substring(0, pattern.length - 1))
+                : mediaType === pattern);
+
+            if (!compressible) {
+                return null;
+            }
+        }
+
+        return compressionSettings.encoding || "gzip";
     }
 
     /**
-     * Get blob from storage in Node.JS
+     * Get blob from storage in Node.JS, decoding content stored compressed. Range of compressed content
+     * can't be decoded on its own, so range requests for such blobs are refused.
      * @param blobKey {string} Blob key.
+     * @param options {BlobDownloadOptions} Optional range and conditions, the stream is null if conditions are not met.
      */
-    public async getBlobAsStream(blobKey: string): Promise<NodeJS.ReadableStream> {
+    public async getBlobAsStream(blobKey: string, options?: BlobDownloadOptions): Promise<NodeJS.ReadableStream> {
+        const download = await this.downloadBlobStream(blobKey, options);
+
+        if (!download.stream || !download.contentEncoding) {
+            return download.stream;
+        }
+
+        if (download.contentRange) {
+            throw this.refuseEncodedRange(blobKey, download);
+        }
+
+        return this.decodeStream(download.stream, download.contentEncoding);
+    }
+
+    /**
+     * Starts streaming download of a blob, or its range, in Node.JS. Content is not buffered, so it can be piped
+     * into HTTP response, e.g. for video seeking or resumed downloads.
+     * @param blobKey {string} Blob key.
+     * @param options {BlobDownloadOptions} Range and conditions, e.g. values of `Range` and `If-None-Match` request headers.
+     */
+    public async downloadBlobStream(blobKey: string, options: BlobDownloadOptions = {}): Promise<BlobDownloadStream<NodeJS.ReadableStream>> {
         await this.initialize();
         const fullBlobKey = this.getFullKey(blobKey);
-        const blockBlobClient = this.containerClient.getBlockBlobClient(fullBlobKey);
+        const blobClient = this.containerClient.getBlobClient(fullBlobKey);
+
+        return this.trackOperation("downloadBlobStream", fullBlobKey, async (telemetry) => {
+            try {
+                const downloadBlobResponse = await blobClient.download(options.offset || 0, options.count, {
+                    conditions: { ifNoneMatch: options.ifNoneMatch, ifModifiedSince: options.ifModifiedSince },
+                    customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+                });
+
+                telemetry.statusCode = downloadBlobResponse._response.status;
+                telemetry.size = downloadBlobResponse.contentLength;
+
+                return {
+                    statusCode: downloadBlobResponse._response.status,
+                    stream: downloadBlobResponse.readableStreamBody,
+                    etag: downloadBlobResponse.etag,
+                    lastModified: downloadBlobResponse.lastModified,
+                    contentType: downloadBlobResponse.contentType,
+                    contentLength: downloadBlobResponse.contentLength,
+                    contentRange: downloadBlobResponse.contentRange || null,
+                    contentEncoding: downloadBlobResponse.contentEncoding || null
+                };
+            }
+            catch (error) {
+                if (error?.statusCode !== 304) {
+                    throw classifyBlobError(fullBlobKey, error, `Unable to download blob ${fullBlobKey}.`);
+                }
+
+                telemetry.statusCode = 304;
+
+                const lastModified = error.response?.headers.get("last-modified");
+                const matchedETag = options.ifNoneMatch !== "*" ? options.ifNoneMatch : null; // not every service returns ETag with 304
+
+                return {
+                    statusCode: 304,
+                    stream: null,
+                    etag: error.response?.headers.get("etag") || matchedETag,
+                    lastModified: lastModified ? new Date(lastModified) : null,
+                    contentType: null,
+                    contentLength: 0,
+                    contentRange: null,
+                    contentEncoding: null
+                };
+            }
+        });
+    }
+
+    /**
+     * Downloads a range of blob content in Node.JS. Range of compressed content can't be decoded on its own,
+     * so only entire content of such blobs can be downloaded.
+     * @param blobKey {string} Blob key.
+     * @param offset {number} Position of the first byte.
+     * @param count {number} Number of bytes, until the end of the blob if not specified.
+     */
+    public override async downloadBlobRange(blobKey: string, offset: number, count?: number): Promise<Uint8Array> {
+        const download = await this.downloadBlobStream(blobKey, { offset: offset, count: count });
+
+        if (download.contentEncoding && download.contentRange) {
+            throw this.refuseEncodedRange(blobKey, download);
+        }
+
+        const buffer = await this.streamToBuffer(this.decodeStream(download.stream, download.contentEncoding));
+
+        return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    }
+
+    /**
+     * Stops ranged download of compressed content and returns error explaining why it can't be served.
+     * @param blobKey {string} Blob key.
+     * @param download {BlobDownloadStream} Ranged download of compressed content.
+     */
+    private refuseEncodedRange(blobKey: string, download: BlobDownloadStream<NodeJS.ReadableStream>): BlobStorageError {
+        const fullBlobKey = this.getFullKey(blobKey);
+        (<Readable><unknown>download.stream).destroy();
 
-        const downloadBlockBlobResponse = await blockBlobClient.download();
-        return downloadBlockBlobResponse.readableStreamBody;
+        return new BlobStorageError(fullBlobKey, 416, `Unable to download range of blob ${fullBlobKey}: content stored with "${download.contentEncoding}" encoding can be decoded only entirely.`, "InvalidRange");
     }
 
     /**
@@ -188,7 +579,7 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
         try {
             const stream = await this.getBlobAsStream(blobKey);
             const buffer = await this.streamToBuffer(stream);
-            const unit8Array = new Uint8Array(buffer.buffer);
+            const unit8Array = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
             return unit8Array;
         }
         catch (error) {
@@ -197,6 +588,44 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
         }
     }
 
+    /**
+     * Reads content of download response in Node.JS
+     * @param downloadBlobResponse {BlobDownloadResponseParsed} Download response.
+     */
+    protected override async readDownloadResponse(downloadBlobResponse: BlobDownloadResponseParsed): Promise<Uint8Array> {
+        const buffer = await this.streamToBuffer(this.decodeStream(downloadBlobResponse.readableStreamBody, downloadBlobResponse.contentEncoding));
+        return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    }
+
+    /**
+     * Decodes content stored compressed, e.g. according to "blobStorageCompression" setting, so that it's read as uploaded.
+     * @param stream {NodeJS.ReadableStream} Content stream.
+     * @param contentEncoding {string} Value of `Content-Encoding` header of the blob.
+     */
+    protected decodeStream(stream: NodeJS.ReadableStream, contentEncoding: string): NodeJS.ReadableStream {
+        let decompressor: zlib.Gunzip | zlib.BrotliDecompress | zlib.Inflate;
+
+        switch (contentEncoding?.toLowerCase()) {
+            case "gzip":
+                decompressor = zlib.createGunzip();
+                break;
+
+            case "br":
+                decompressor = zlib.createBrotliDecompress();
+                break;
+
+            case "deflate":
+                decompressor = zlib.createInflate();
+                break;
+
+            default:
+                return stream;
+        }
+
+        stream.once("error", (error) => decompressor.destroy(error));
+        return <NodeJS.ReadableStream><unknown>stream.pipe(decompressor);
+    }
+
     protected async streamToBuffer(readableStream: NodeJS.ReadableStream): Promise<Buffer> {
         return new Promise((resolve, reject) => {
             const chunks = [];
@@ -211,59 +640,582 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
     }
 
     /**
-     * Removes blobs from storage with specified prefix.
-     * if prefix is empty then all blobs from container will be removed
-     * @param blobPrefix
+     * Copies a blob within the container using service-side copy.
+     * @param sourceBlobKey {string} Key of the source blob.
+     * @param targetBlobKey {string} Key of the target blob.
+     * @param conditions {BlobConditions} Optional conditions for the target blob, e.g. `ifNoneMatch: "*"` to prevent overwrite.
      */
-    protected async deleteBlobFolder(blobPrefix: string): Promise<void> {
+    public async copyBlob(sourceBlobKey: string, targetBlobKey: string, conditions?: BlobConditions): Promise<void> {
         await this.initialize();
+        await this.copyBlobByFullKey(this.getFullKey(sourceBlobKey), this.getFullKey(targetBlobKey), conditions);
+    }
 
-        if (!this.blobBatchClient) {
-            throw new Error("deleteBlobFolder works only with client created from the blob storage connection string");
+    /**
+     * Moves (renames) a blob within the container. Source blob gets deleted only after successful copy.
+     * @param sourceBlobKey {string} Key of the source blob.
+     * @param targetBlobKey {string} Key of the target blob.
+     * @param conditions {BlobConditions} Optional conditions for the target blob, e.g. `ifNoneMatch: "*"` to prevent overwrite.
+     */
+    public async moveBlob(sourceBlobKey: string, targetBlobKey: string, conditions?: BlobConditions): Promise<void> {
+        await this.initialize();
+        await this.moveBlobByFullKey(this.getFullKey(sourceBlobKey), this.getFullKey(targetBlobKey), conditions);
+    }
+
+    /**
+     * Copies all the blobs of a folder into another folder.
+     * @param sourceFolderKey {string} Key of the source folder.
+     * @param targetFolderKey {string} Key of the target folder.
+     * @returns Full keys of the copied blobs.
+     */
+    public async copyBlobFolder(sourceFolderKey: string, targetFolderKey: string): Promise<string[]> {
+        await this.initialize();
+
+        const blobKeyPairs = await this.getFolderBlobKeyPairs(sourceFolderKey, targetFolderKey);
+        const chunks = this.chunkArray(blobKeyPairs, copyConcurrency);
+
+        for (const chunk of chunks) {
+            await Promise.all(chunk.map(([sourceKey, targetKey]) => this.copyBlobByFullKey(sourceKey, targetKey)));
         }
-        const fullBlobPrefix = this.getFullKey(blobPrefix);
-        const allBlobs = await this.listAllBlobItems(fullBlobPrefix);
 
+        return blobKeyPairs.map(([_, targetKey]) => targetKey);
+    }
+
+    /**
+     * Moves all the blobs of a folder into another folder. Source blobs get deleted only after all of them were copied.
+     * @param sourceFolderKey {string} Key of the source folder.
+     * @param targetFolderKey {string} Key of the target folder.
+     * @returns Full keys of the moved blobs.
+     */
+    public async moveBlobFolder(sourceFolderKey: string, targetFolderKey: string): Promise<string[]> {
+        await this.initialize();
+
+        const blobKeyPairs = await this.getFolderBlobKeyPairs(sourceFolderKey, targetFolderKey);
+        const sourceETags = new Map<string, string>();
+
+        for (const chunk of this.chunkArray(blobKeyPairs, copyConcurrency)) {
+            await Promise.all(chunk.map(async ([sourceKey, targetKey]) => {
+                sourceETags.set(sourceKey, await this.copyBlobByFullKey(sourceKey, targetKey));
+            }));
+        }
+
+        for (const chunk of this.chunkArray(blobKeyPairs, copyConcurrency)) {
+            await Promise.all(chunk.map(([sourceKey]) => this.deleteSourceBlob(sourceKey, sourceETags.get(sourceKey))));
+        }
+
+        return blobKeyPairs.map(([_, targetKey]) => targetKey);
+    }
+
+    /**
+     * Copies a blob and returns ETag of the source version that was copied.
+     */
+    protected async copyBlobByFullKey(sourceFullKey: string, targetFullKey: string, conditions?: BlobConditions): Promise<string> {
+        if (sourceFullKey === targetFullKey) {
+            throw new Error(`Unable to copy blob ${sourceFullKey} onto itself.`);
+        }
+
+        const sourceBlobClient = this.containerClient.getBlobClient(sourceFullKey);
+        const targetBlobClient = this.containerClient.getBlockBlobClient(targetFullKey);
+
+        try {
+            const sourceProperties = await sourceBlobClient.getProperties();
+            const sourceUrl = await this.getCopySourceUrl(sourceFullKey);
+            const sourceConditions = { ifMatch: sourceProperties.etag };
+
+            if (sourceProperties.contentLength <= maxSyncCopySize) {
+                await targetBlobClient.syncCopyFromURL(sourceUrl, { conditions: conditions, sourceConditions: sourceConditions });
+            }
+            else {
+                const poller = await targetBlobClient.beginCopyFromURL(sourceUrl, { conditions: conditions, sourceConditions: sourceConditions });
+                const result = await poller.pollUntilDone();
+
+                if (result.copyStatus !== "success") {
+                    throw new Error(`Copy status: ${result.copyStatus}.`);
+                }
+            }
+
+            return sourceProperties.etag;
+        }
+        catch (error) {
+            throw classifyBlobError(targetFullKey, error, `Unable to copy blob ${sourceFullKey} to ${targetFullKey}.`);
+        }
+    }
+
+    protected async moveBlobByFullKey(sourceFullKey: string, targetFullKey: string, conditions?: BlobConditions): Promise<void> {
+        const sourceETag = await this.copyBlobByFullKey(sourceFullKey, targetFullKey, conditions);
+        await this.deleteSourceBlob(sourceFullKey, sourceETag);
+    }
+
+    /**
+     * Deletes source blob of a move, unless it was modified after the copy.
+     */
+    private async deleteSourceBlob(sourceFullKey: string, sourceETag: string): Promise<void> {
         try {
-            const clients = allBlobs.map(item => this.containerClient.getBlockBlobClient(item.name));
+            await this.containerClient.getBlobClient(sourceFullKey).delete({ conditions: { ifMatch: sourceETag }, deleteSnapshots: "include" });
+        }
+        catch (error) {
+            if (error?.statusCode === 404) {
+                return; // blob was already deleted
+            }
+            if (BlobConflictError.isConflict(error)) {
+                throw new BlobConflictError(sourceFullKey, error.statusCode, `Blob ${sourceFullKey} was copied but not deleted because it was modified during the move.`);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Returns URL of the source blob which the storage service is authorized to read from.
+     */
+    private async getCopySourceUrl(sourceFullKey: string): Promise<string> {
+        const sourceBlobClient = this.containerClient.getBlobClient(sourceFullKey);
+        const sasToken = await this.generateSasToken(sourceFullKey, { permissions: "r", expiresInMinutes: 60 });
+
+        return sasToken ? `${sourceBlobClient.url}?${sasToken}` : sourceBlobClient.url;
+    }
+
+    /**
+     * Merges SAS options with settings and defaults. When stored access policy is referenced, permissions and expiry
+     * are taken only from the options referencing it, because the service rejects tokens redefining policy fields.
+     */
+    private getSasOptions(kind: keyof SasSettings, options: SasOptions): SasOptions {
+        const layers = [defaultSasSettings[kind], this.sasSettings[kind], options].filter(layer => !!layer);
+        const mergedOptions: SasOptions = Object.assign({}, ...layers);
+        const policyLayer = layers.filter(layer => !!layer.identifier).pop();
+
+        if (policyLayer) {
+            mergedOptions.permissions = policyLayer.permissions;
+            mergedOptions.expiresInMinutes = policyLayer.expiresInMinutes;
+        }
+
+        return mergedOptions;
+    }
+
+    /**
+     * Generates SAS query string for a blob, or for the container if blob name isn't specified. Uses account key
+     * if available, or user delegation key when authenticated with Azure AD. Returns null when client has no
+     * credential to sign with, i.e. either container URL carries SAS token or access is public.
+     * @param blobName {string} Full blob key.
+     * @param options {SasOptions} SAS options.
+     */
+    protected async generateSasToken(blobName: string, options: SasOptions): Promise<string> {
+        return this.trackOperation("generateSasToken", blobName || "", async () => {
+            const credential = this.containerClient.credential;
+
+            if (credential instanceof AnonymousCredential) {
+                return null;
+            }
+
+            const sasValues: BlobSASSignatureValues = {
+                containerName: this.containerClient.containerName,
+                blobName: blobName || undefined,
+                identifier: options.identifier,
+                ipRange: this.parseIpRange(options.ipRange),
+                protocol: <SASProtocol>options.protocol,
+                contentDisposition: options.contentDisposition,
+                contentType: options.contentType,
+                encryptionScope: this.encryptionScope
+            };
+
+            if (options.permissions) {
+                sasValues.permissions = blobName
+                    ? BlobSASPermissions.parse(options.permissions)
+                    : ContainerSASPermissions.parse(options.permissions);
+            }
+
+            if (options.expiresInMinutes) {
+                sasValues.expiresOn = new Date();
+                sasValues.expiresOn.setMinutes(sasValues.expiresOn.getMinutes() + options.expiresInMinutes);
+            }
+
+            if (!options.identifier) {
+                sasValues.startsOn = new Date();
+                sasValues.startsOn.setMinutes(sasValues.startsOn.getMinutes() - sasClockSkewMinutes);
+            }
+
+            if (credential instanceof StorageSharedKeyCredential) {
+                return generateBlobSASQueryParameters(sasValues, credential).toString();
+            }
+
+            if (options.identifier) {
+                throw new Error(`Stored access policy "${options.identifier}" cannot be used with user delegation SAS.`);
+            }
+
+            if (!sasValues.permissions || !sasValues.expiresOn) {
+                throw new Error(`Permissions and expiry are required to generate user delegation SAS.`);
+            }
+
+            const userDelegationKey = await this.getUserDelegationKey(sasValues.expiresOn);
+
+            return generateBlobSASQueryParameters(sasValues, userDelegationKey, this.containerClient.accountName).toString();
+        });
+    }
+
+    /**
+     * Returns cached user delegation key, or requests a new one if cached key expires before the SAS.
+     */
+    private async getUserDelegationKey(sasExpiresOn: Date): Promise<UserDelegationKey> {
+        if (this.userDelegationKey && this.userDelegationKey.signedExpiresOn >= sasExpiresOn) {
+            return this.userDelegationKey;
+        }
+
+        if (!this.blobServiceClient) {
+            throw new Error(`Unable to request user delegation key without blob service client.`);
+        }
+
+        const startsOn = new Date();
+        startsOn.setMinutes(startsOn.getMinutes() - sasClockSkewMinutes);
+
+        const expiresOn = new Date(startsOn);
+        expiresOn.setDate(expiresOn.getDate() + userDelegationKeyLifetimeDays);
+
+        if (sasExpiresOn > expiresOn) {
+            throw new Error(`User delegation SAS cannot be valid for more than ${userDelegationKeyLifetimeDays} days.`);
+        }
+
+        this.userDelegationKey = await this.blobServiceClient.getUserDelegationKey(startsOn, expiresOn);
+
+        return this.userDelegationKey;
+    }
+
+    /**
+     * Parses IP range, e.g. "203.0.113.0-203.0.113.255", or a single IP address.
+     */
+    private parseIpRange(ipRange: string): SasIPRange {
+        if (!ipRange) {
+            return undefined;
+        }
+
+        const [start, end] = ipRange.split("-").map(ip => ip.trim());
+
+        return { start: start, end: end };
+    }
 
-            if (clients.length > 0) {
-                if (clients.length < 256) {
-                    await this.processDeleteBatch(clients, blobPrefix);
+    private async getFolderBlobKeyPairs(sourceFolderKey: string, targetFolderKey: string): Promise<[string, string][]> {
+        const sourcePrefix = this.getFolderPrefix(sourceFolderKey);
+        const targetPrefix = this.getFolderPrefix(targetFolderKey);
+
+        if (targetPrefix.startsWith(sourcePrefix)) {
+            throw new Error(`Unable to copy folder ${sourcePrefix} into itself.`);
+        }
+
+        const sourceBlobs = await this.listAllBlobItems(sourcePrefix);
+
+        return sourceBlobs.map(blob => [blob.name, targetPrefix + blob.name.substring(sourcePrefix.length)]);
+    }
+
+    /**
+     * Deploys local folder, e.g. published website, into the container (e.g. "$web") uploading only new
+     * and changed files, which are detected by comparing MD5 hashes with previously deployed blobs.
+     * @param localFolderPath {string} Path of local folder.
+     * @param options {StaticSiteDeploymentOptions} Target folder, orphans removal and dry run options.
+     * @returns Keys of uploaded, skipped and deleted blobs.
+     */
+    public async deployFolder(localFolderPath: string, options: StaticSiteDeploymentOptions = {}): Promise<StaticSiteDeploymentSummary> {
+        await this.initialize();
+
+        const targetFolder = options.targetFolder || "";
+        const targetPrefix = this.getFolderPrefix(targetFolder);
+        const localFiles = await this.listLocalFiles(localFolderPath);
+        const existingBlobs = await this.listAllBlobItems(targetPrefix, { includeMetadata: true });
+        const existingMD5s = new Map(existingBlobs.map(blob => [blob.name, this.getSourceMD5(blob)]));
+        const summary: StaticSiteDeploymentSummary = { uploaded: [], skipped: [], deleted: [] };
+        const deployedKeys = new Set<string>();
+
+        for (const chunk of this.chunkArray(localFiles, deploymentConcurrency)) {
+            await Promise.all(chunk.map(async (relativePath) => {
+                const blobKey = `${targetFolder}/${relativePath}`;
+                const fullBlobKey = this.getFullKey(blobKey);
+                const filePath = path.join(localFolderPath, ...relativePath.split("/"));
+                const contentMD5 = await this.computeFileMD5(filePath);
+
+                deployedKeys.add(fullBlobKey);
+
+                if (existingMD5s.get(fullBlobKey) === contentMD5) {
+                    summary.skipped.push(fullBlobKey);
+                    return;
+                }
+
+                if (options.dryRun) {
+                    this.logger.trackEvent("AzureBlobStorage", { message: `Deployment plan: upload ${fullBlobKey}.` });
                 }
                 else {
-                    const chunks = this.chunkArray(clients, 250);
-                    chunks.map(async chunk => await this.processDeleteBatch(chunk, blobPrefix));
+                    await this.uploadLocalFile(blobKey, filePath, contentMD5);
                 }
+
+                summary.uploaded.push(fullBlobKey);
+            }));
+        }
+
+        if (options.deleteOrphans) {
+            const orphanKeys = existingBlobs.map(blob => blob.name).filter(key => !deployedKeys.has(key));
+
+            for (const chunk of this.chunkArray(orphanKeys, deploymentConcurrency)) {
+                await Promise.all(chunk.map(async (fullBlobKey) => {
+                    if (options.dryRun) {
+                        this.logger.trackEvent("AzureBlobStorage", { message: `Deployment plan: delete ${fullBlobKey}.` });
+                    }
+                    else {
+                        await this.containerClient.getBlobClient(fullBlobKey).deleteIfExists({ deleteSnapshots: "include" });
+                    }
+
+                    summary.deleted.push(fullBlobKey);
+                }));
             }
         }
+
+        summary.uploaded.sort();
+        summary.skipped.sort();
+        summary.deleted.sort();
+
+        this.logger.trackEvent("AzureBlobStorage", {
+            message: `Deployment of folder ${localFolderPath}${options.dryRun ? " (dry run)" : ""}: ${summary.uploaded.length} uploaded, ${summary.skipped.length} skipped, ${summary.deleted.length} deleted.`
+        });
+
+        return summary;
+    }
+
+    private async uploadLocalFile(blobKey: string, filePath: string, contentMD5: string): Promise<void> {
+        const stats = await fs.promises.stat(filePath);
+        const uploadOptions: BlobUploadOptions = { metadata: { [sourceMD5MetadataKey]: contentMD5 } };
+
+        if (stats.size <= maxBufferedDeploymentFileSize) {
+            const buffer = await fs.promises.readFile(filePath);
+            await this.uploadBlob(blobKey, new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength), null, uploadOptions);
+        }
+        else {
+            await this.uploadStreamToBlob(blobKey, fs.createReadStream(filePath), null, uploadOptions);
+        }
+    }
+
+    /**
+     * Returns base64-encoded MD5 hash of deployed file, or of blob content if the blob wasn't deployed.
+     */
+    private getSourceMD5(blob: BlobItem): string {
+        const contentMD5 = blob.properties.contentMD5;
+        return blob.metadata?.[sourceMD5MetadataKey] || (contentMD5 ? this.toBase64(contentMD5) : null);
+    }
+
+    private computeFileMD5(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash("md5");
+
+            fs.createReadStream(filePath)
+                .on("data", (data) => hash.update(data))
+                .on("end", () => resolve(hash.digest("base64")))
+                .on("error", reject);
+        });
+    }
+
+    /**
+     * Returns paths of all the files in a local folder and its subfolders, relative to the folder and separated with "/".
+     */
+    private async listLocalFiles(folderPath: string): Promise<string[]> {
+        const files: string[] = [];
+        const folders = [folderPath];
+
+        while (folders.length > 0) {
+            const folder = folders.pop();
+            const entries = await fs.promises.readdir(folder, { withFileTypes: true });
+
+            for (const entry of entries) {
+                const entryPath = path.join(folder, entry.name);
+
+                if (entry.isDirectory()) {
+                    folders.push(entryPath);
+                }
+                else if (entry.isFile()) {
+                    files.push(path.relative(folderPath, entryPath).split(path.sep).join("/"));
+                }
+            }
+        }
+
+        return files.sort();
+    }
+
+    /**
+     * Acquires distributed lock, e.g. to prevent concurrent publishing into the same container. The lock is a lease
+     * on blob ".locks/<lockName>" under base path, which expires unless renewed with `renewLock`.
+     * @param lockName {string} Name of the lock, e.g. "publishing".
+     * @param durationInSeconds {number} Lease duration between 15 and 60 seconds, or -1 for lock held until released.
+     * @param holder {string} Description of the lock holder reported to other contenders, "host:pid" by default.
+     * @throws BlobLockedError when the lock is held by someone else.
+     */
+    public async acquireLock(lockName: string, durationInSeconds: number = defaultLockDurationInSeconds, holder?: string): Promise<BlobLock> {
+        await this.initialize();
+
+        if (durationInSeconds !== -1 && (durationInSeconds < 15 || durationInSeconds > 60)) {
+            throw new Error(`Unable to acquire lock ${lockName}: duration must be between 15 and 60 seconds, or -1.`);
+        }
+
+        const fullBlobKey = this.getFolderPrefix(lockFolder) + lockName;
+        const blobClient = this.containerClient.getBlockBlobClient(fullBlobKey);
+        const leaseClient = blobClient.getBlobLeaseClient();
+        const acquiredOn = new Date();
+
+        holder = holder || `${os.hostname()}:${process.pid}`;
+
+        await this.createLockBlob(blobClient);
+
+        try {
+            await leaseClient.acquireLease(durationInSeconds);
+        }
+        catch (error) {
+            if (error?.statusCode === 409) {
+                throw await this.createLockedError(lockName, blobClient);
+            }
+            throw classifyBlobError(fullBlobKey, error, `Unable to acquire lock ${lockName}.`);
+        }
+
+        const metadata = {
+            [lockHolderMetadataKey]: encodeURIComponent(holder),
+            [lockAcquiredOnMetadataKey]: acquiredOn.toISOString()
+        };
+
+        try {
+            await blobClient.setMetadata(metadata, { conditions: { leaseId: leaseClient.leaseId } });
+        }
         catch (error) {
-            throw new Error(`Unable to delete blobs in ${blobPrefix}. Error: ${error}`);
+            /* Otherwise the lease would keep the lock held until it expires, or forever with infinite duration. */
+            try {
+                await leaseClient.releaseLease();
+            }
+            catch (releaseError) {
+                this.logger.trackEvent("AzureBlobStorage", { message: `Unable to release lock ${lockName} after failed acquisition. ${releaseError.message}` });
+            }
+
+            throw classifyBlobError(fullBlobKey, error, `Unable to acquire lock ${lockName}.`);
         }
+
+        return {
+            name: lockName,
+            leaseId: leaseClient.leaseId,
+            holder: holder,
+            acquiredOn: acquiredOn,
+            durationInSeconds: durationInSeconds
+        };
     }
 
-    protected async processDeleteBatch(clients: BlockBlobClient[], blobPrefix: string) {
-        const batchDeleteRequest = new BlobBatch();
+    /**
+     * Extends lease of the lock for its duration.
+     * @param lock {BlobLock} Lock returned by `acquireLock`.
+     * @throws BlobConflictError when the lock was lost, e.g. it expired and got acquired by someone else.
+     */
+    public async renewLock(lock: BlobLock): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFolderPrefix(lockFolder) + lock.name;
 
-        for (const client of clients) {
-            await batchDeleteRequest.deleteBlob(client.url, this.containerClient.credential, {});
+        try {
+            await this.containerClient.getBlobClient(fullBlobKey).getBlobLeaseClient(lock.leaseId).renewLease();
+        }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to renew lock ${lock.name}.`);
         }
+    }
 
-        const result = await this.blobBatchClient.submitBatch(batchDeleteRequest, {});
+    /**
+     * Releases the lock, so that others can acquire it immediately. Lock which isn't held anymore is ignored.
+     * @param lock {BlobLock} Lock returned by `acquireLock`.
+     */
+    public async releaseLock(lock: BlobLock): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFolderPrefix(lockFolder) + lock.name;
 
-        if (result.subResponsesFailedCount !== 0) {
-            this.logger.trackEvent("AzureBlobStorage", { message: `Delete blob folder failed for '${blobPrefix}': ${result.subResponsesFailedCount} items.` });
+        try {
+            await this.containerClient.getBlobClient(fullBlobKey).getBlobLeaseClient(lock.leaseId).releaseLease();
+        }
+        catch (error) {
+            if (error?.statusCode === 404 || error?.statusCode === 409) {
+                this.logger.trackEvent("AzureBlobStorage", { message: `Lock ${lock.name} was not held anymore when released.` });
+                return;
+            }
+            throw classifyBlobError(fullBlobKey, error, `Unable to release lock ${lock.name}.`);
         }
     }
 
-    protected async listAllBlobItems(prefix?: string): Promise<BlobItem[]> {
-        const allItems = [];
+    /**
+     * Runs the work while holding the lock, which gets renewed in background and released afterwards.
+     * If renewal fails, abort signal passed to the work gets aborted, as someone else may acquire the lock.
+     * @param lockName {string} Name of the lock, e.g. "publishing".
+     * @param work Work to run, e.g. publishing of the website.
+     * @param durationInSeconds {number} Lease duration between 15 and 60 seconds.
+     * @param holder {string} Description of the lock holder reported to other contenders, "host:pid" by default.
+     * @throws BlobLockedError when the lock is held by someone else.
+     */
+    public async withLock<T>(
+        lockName: string,
+        work: (lock: BlobLock, abortSignal: AbortSignal) => Promise<T>,
+        durationInSeconds: number = defaultLockDurationInSeconds,
+        holder?: string
+    ): Promise<T> {
+        const lock = await this.acquireLock(lockName, durationInSeconds, holder);
+        const abortController = new AbortController();
+        let renewal: Promise<void> = Promise.resolve();
+
+        const renewalTimer = setInterval(() => {
+            renewal = this.renewLock(lock).catch((error) => {
+                clearInterval(renewalTimer);
+                this.logger.trackEvent("AzureBlobStorage", { message: `Lock ${lockName} lost: ${error.message}` });
+                abortController.abort(error);
+            });
+        }, this.getLockRenewalIntervalInMs(lock));
 
-        for await (const blob of this.containerClient.listBlobsFlat({ prefix: prefix })) {
-            allItems.push(blob);
+        try {
+            return await work(lock, abortController.signal);
+        }
+        finally {
+            clearInterval(renewalTimer);
+            await renewal;
+            await this.releaseLock(lock);
+        }
+    }
+
+    /**
+     * Returns interval of automatic lock renewal, half of the lease duration.
+     * @param lock {BlobLock} Held lock.
+     */
+    protected getLockRenewalIntervalInMs(lock: BlobLock): number {
+        return lock.durationInSeconds > 0
+            ? lock.durationInSeconds * 1000 / 2
+            : defaultLockDurationInSeconds * 1000 / 2; // lock without expiration is renewed only to detect its loss
+    }
+
+    /**
+     * Checks if the blob is a lock blob (see `acquireLock`), which is left out of listings and folder operations.
+     * @param fullBlobKey {string} Full blob key or folder prefix.
+     */
+    protected override isReservedBlob(fullBlobKey: string): boolean {
+        return fullBlobKey.startsWith(this.getFolderPrefix(lockFolder));
+    }
+
+    /**
+     * Creates empty lock blob unless it already exists.
+     */
+    private async createLockBlob(blobClient: BlockBlobClient): Promise<void> {
+        try {
+            await blobClient.upload("", 0, { conditions: { ifNoneMatch: "*" } });
+        }
+        catch (error) {
+            if (error?.statusCode === 409 || error?.statusCode === 412) {
+                return; // lock blob exists, possibly leased
+            }
+            throw classifyBlobError(blobClient.name, error, `Unable to create lock blob ${blobClient.name}.`);
         }
+    }
 
-        return allItems;
+    /**
+     * Creates error describing current holder of the lock.
+     */
+    private async createLockedError(lockName: string, blobClient: BlockBlobClient): Promise<BlobLockedError> {
+        try {
+            const properties = await blobClient.getProperties();
+            const holder = properties.metadata?.[lockHolderMetadataKey];
+            const acquiredOn = properties.metadata?.[lockAcquiredOnMetadataKey];
+
+            return new BlobLockedError(lockName, blobClient.name, holder ? decodeURIComponent(holder) : null, acquiredOn ? new Date(acquiredOn) : null);
+        }
+        catch (error) {
+            return new BlobLockedError(lockName, blobClient.name, null, null);
+        }
     }
 
     public async createContainer(): Promise<void> {
@@ -276,36 +1228,178 @@ export class ServerAzureBlobStorage extends AzureBlobStorage {
         await this.containerClient.deleteIfExists();
     }
 
-    private removeQueryParameters(url: string): string {
-        return url.split('?')[0];
+    /**
+     * Configures static website hosting of the storage account according to "blobStorageStaticWebsite" setting.
+     * Service properties get updated only if they differ from the settings.
+     * @param settings {StaticWebsiteSettings} Settings overriding "blobStorageStaticWebsite" setting.
+     * @returns Resulting static website configuration.
+     */
+    public async configureStaticWebsite(settings?: StaticWebsiteSettings): Promise<StaticWebsite> {
+        const blobServiceClient = await this.getBlobServiceClient();
+
+        settings = settings || await this.settingsProvider.getSetting<StaticWebsiteSettings>("blobStorageStaticWebsite") || {};
+
+        const staticWebsite: StaticWebsite = settings.enabled === false
+            ? { enabled: false }
+            : {
+                enabled: true,
+                indexDocument: settings.indexDocument || "index.html",
+                errorDocument404Path: settings.errorDocument404Path || "404.html"
+            };
+
+        const properties = await blobServiceClient.getProperties();
+        const current = properties.staticWebsite;
+
+        const upToDate = current?.enabled === staticWebsite.enabled && (!staticWebsite.enabled
+            || (current.indexDocument === staticWebsite.indexDocument && current.errorDocument404Path === staticWebsite.errorDocument404Path));
+
+        if (!upToDate) {
+            await blobServiceClient.setProperties({ staticWebsite: staticWebsite });
+            this.logger.trackEvent("AzureBlobStorage", { message: `Static website hosting ${staticWebsite.enabled ? "enabled" : "disabled"}.` });
+        }
+
+        const updatedProperties = await blobServiceClient.getProperties();
+        return updatedProperties.staticWebsite;
+    }
+
+    /**
+     * Adds CORS rule allowing browser clients (e.g. designer) from origins of "blobStorageCorsOrigins" setting.
+     * Other rules are preserved, service properties get updated only if matching rule is missing.
+     * @param origins {string[]} Origins overriding "blobStorageCorsOrigins" setting, e.g. `["https://designer.contoso.com"]`.
+     * @returns Resulting CORS rules.
+     */
+    public async configureCors(origins?: string[]): Promise<CorsRule[]> {
+        const blobServiceClient = await this.getBlobServiceClient();
+
+        if (!origins) {
+            const corsOrigins = await this.settingsProvider.getSetting<string | string[]>("blobStorageCorsOrigins");
+            origins = typeof corsOrigins === "string" ? corsOrigins.split(",") : corsOrigins;
+        }
+
+        const allowedOrigins = (origins || [])
+            .map(origin => origin.trim().replace(/\/+$/, ""))
+            .filter(origin => !!origin)
+            .join(",");
+
+        if (!allowedOrigins) {
+            throw new Error(`Setting "blobStorageCorsOrigins" required to configure CORS.`);
+        }
+
+        const corsRule: CorsRule = {
+            allowedOrigins: allowedOrigins,
+            allowedMethods: corsAllowedMethods,
+            allowedHeaders: "*",
+            exposedHeaders: "*",
+            maxAgeInSeconds: corsMaxAgeInSeconds
+        };
+
+        const properties = await blobServiceClient.getProperties();
+        const corsRules = properties.cors || [];
+
+        const upToDate = corsRules.some(rule => rule.allowedOrigins === corsRule.allowedOrigins
+            && rule.allowedMethods === corsRule.allowedMethods
+            && rule.allowedHeaders === corsRule.allowedHeaders
+            && rule.exposedHeaders === corsRule.exposedHeaders
+            && rule.maxAgeInSeconds === corsRule.maxAgeInSeconds);
+
+        if (!upToDate) {
+            const otherRules = corsRules.filter(rule => rule.allowedOrigins !== corsRule.allowedOrigins);
+
+            await blobServiceClient.setProperties({ cors: [...otherRules, corsRule] });
+            this.logger.trackEvent("AzureBlobStorage", { message: `CORS rule added for origins ${allowedOrigins}.` });
+        }
+
+        const updatedProperties = await blobServiceClient.getProperties();
+        return updatedProperties.cors || [];
     }
 
     /**
-     * Get blob from storage in Browser.
+     * Runs tracked operation in scope of its telemetry, so that requests of the operation get observed by telemetry policy.
+     */
+    protected override async runTrackedOperation<T>(telemetry: BlobOperationTelemetry, operation: (telemetry: BlobOperationTelemetry) => Promise<T>): Promise<T> {
+        telemetry.retryCount = 0;
+        return this.operationScope.run(telemetry, () => operation(telemetry));
+    }
+
+    /**
+     * Creates pipeline policy, which sees every try of a request (i.e. it runs after retry policy), counting retries
+     * and recording status code of the last response of tracked operation.
+     */
+    private createTelemetryPolicy(): PipelinePolicy {
+        const sentRequests = new WeakSet<PipelineRequest>();
+
+        return {
+            name: "blobOperationTelemetryPolicy",
+            sendRequest: async (request, next) => {
+                const telemetry = this.operationScope.getStore();
+
+                if (!telemetry) {
+                    return next(request);
+                }
+
+                if (sentRequests.has(request)) {
+                    telemetry.retryCount += 1;
+                }
+                else {
+                    sentRequests.add(request);
+                }
+
+                try {
+                    const response = await next(request);
+                    telemetry.statusCode = response.status;
+
+                    return response;
+                }
+                catch (error) {
+                    telemetry.statusCode = error?.statusCode ?? telemetry.statusCode;
+                    throw error;
+                }
+            }
+        };
+    }
+
+    private async getBlobServiceClient(): Promise<BlobServiceClient> {
+        await this.initialize();
+
+        if (!this.blobServiceClient) {
+            throw new Error(`Setting "blobStorageConnectionString" or "blobStorageAccountUrl" required to configure storage account.`);
+        }
+
+        return this.blobServiceClient;
+    }
+
+    /**
+     * Downloads blob content along with its ETag in Node.JS
      * @param blobKey {string} Blob key.
      */
-    public override async downloadBlob(blobKey: string): Promise<Uint8Array> {
+    public override async downloadBlobWithETag(blobKey: string): Promise<DownloadedBlob> {
         await this.initialize();
         const fullBlobKey = this.getFullKey(blobKey);
         const blockBlobClient = this.containerClient.getBlobClient(fullBlobKey);
-        const blobUrl = this.removeQueryParameters(blockBlobClient.url);
 
-        try {
-            const downloadBlockBlobResponse = await blockBlobClient.download();
+        return this.trackOperation("downloadBlob", fullBlobKey, async (telemetry) => {
+            try {
+                const downloadBlockBlobResponse = await blockBlobClient.download(0, undefined, {
+                    customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+                });
 
-            if (downloadBlockBlobResponse.readableStreamBody) {
-                const buffer = await this.streamToBuffer(downloadBlockBlobResponse.readableStreamBody);
-                const unit8Array = new Uint8Array(buffer.buffer);
-                return unit8Array;
-            }
+                telemetry.statusCode = downloadBlockBlobResponse._response.status;
 
-            const statusCode = downloadBlockBlobResponse._response.status;
+                if (downloadBlockBlobResponse.readableStreamBody) {
+                    telemetry.size = downloadBlockBlobResponse.contentLength;
 
-            this.logger.trackEvent("AzureBlobStorage", { message: `Unable to download blob ${blobUrl}. Status code: ${statusCode}` });
-        }
-        catch (error) {
-            this.logger.trackEvent("AzureBlobStorage", { message: `Unable to download blob ${blobUrl}: ${error.stack || error.message}` });
-            throw error;
-        }
+                    const stream = this.decodeStream(downloadBlockBlobResponse.readableStreamBody, downloadBlockBlobResponse.contentEncoding);
+                    const buffer = await this.streamToBuffer(stream);
+                    const unit8Array = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+                    return { content: unit8Array, etag: downloadBlockBlobResponse.etag };
+                }
+
+                return undefined;
+            }
+            catch (error) {
+                throw classifyBlobError(fullBlobKey, error, `Unable to download blob ${fullBlobKey}.`);
+            }
+        });
     }
 }
@@ -1,13 +1,55 @@
 import * as mime from "mime";
+import { Bag } from "@paperbits/common";
 import { IBlobStorage } from "@paperbits/common/persistence";
 import { Logger } from "@paperbits/common/logging";
 import {
     BlobBatch,
     BlobBatchClient,
+    BlobClient,
+    BlobDownloadResponseParsed,
+    BlobHTTPHeaders,
     BlobItem,
-    BlockBlobClient,
-    ContainerClient
+    ContainerClient,
+    ContainerListBlobsOptions,
+    CpkInfo,
+    RestError,
+    StoragePipelineOptions,
+    StorageRetryPolicyType
 } from "@azure/storage-blob";
+import { BlobConditions } from "./blobConditions";
+import { BlobEncryptionKeyError } from "./blobEncryptionKeyError";
+import { BlobEncryptionKeyProvider } from "./blobEncryptionKeyProvider";
+import { classifyBlobError } from "./blobErrorClassifier";
+import { BlobFolderDeletionReport } from "./blobFolderDeletionReport";
+import { BlobListOptions, BlobListPage, defaultBlobListPageSize } from "./blobListPage";
+import { BlobOperationTelemetry } from "./blobOperationTelemetry";
+import { BlobProperties } from "./blobProperties";
+import { BlobRetrySettings } from "./blobRetrySettings";
+import { BlobTelemetrySettings } from "./blobTelemetrySettings";
+import { BlobUploadOptions } from "./blobUploadOptions";
+import { BlobVersion, BlobVersionReference, sortBlobVersions } from "./blobVersion";
+import { DownloadedBlob } from "./downloadedBlob";
+import { EncodedContent } from "./encodedContent";
+
+/**
+ * Maximum number of blobs deleted in one batch request (service limit is 256).
+ */
+const deleteBatchSize = 250;
+
+/**
+ * Number of batch requests submitted in parallel.
+ */
+const deleteBatchConcurrency = 4;
+
+/**
+ * Number of single delete requests sent in parallel when batch client isn't available.
+ */
+const deleteConcurrency = 20;
+
+/**
+ * Type of dependency reported for storage operations.
+ */
+const dependencyType = "Azure blob";
 
 /**
  * Azure blob storage client.
@@ -17,6 +59,11 @@ export abstract class AzureBlobStorage implements IBlobStorage {
     protected containerClient: ContainerClient;
     protected blobBatchClient: BlobBatchClient;
     protected basePath: string;
+    protected cacheControlRules: Bag<string>;
+    protected snapshotOnOverwrite: boolean;
+    protected encryptionScope: string;
+    protected encryptionKeyProvider: BlobEncryptionKeyProvider;
+    protected telemetrySettings: BlobTelemetrySettings;
 
     /**
      * Creates Azure blob storage client.
@@ -46,7 +93,13 @@ export abstract class AzureBlobStorage implements IBlobStorage {
     public async listBlobs(blobPrefix: string = ""): Promise<string[]> {
         await this.initialize();
         const prefix = this.getFullKey(blobPrefix);
-        const allBlobs = await this.listAllBlobItems(prefix);
+
+        const allBlobs = await this.trackOperation("listBlobs", prefix, async (telemetry) => {
+            const blobItems = await this.listAllBlobItems(prefix);
+            telemetry.blobCount = blobItems.length;
+
+            return blobItems;
+        });
 
         if (allBlobs.length > 0) {
             return allBlobs.map(blob => blob.name);
@@ -55,35 +108,220 @@ export abstract class AzureBlobStorage implements IBlobStorage {
         return [];
     }
 
+    /**
+     * Returns a page of blob keys with specified prefix.
+     * @param blobPrefix {string} Blob prefix (or folder in hierarchical mode).
+     * @param options {BlobListOptions} Page size, continuation token and listing mode.
+     */
+    public async listBlobsPage(blobPrefix: string = "", options?: BlobListOptions): Promise<BlobListPage> {
+        await this.initialize();
+        const pageSettings = {
+            maxPageSize: options?.pageSize || defaultBlobListPageSize,
+            continuationToken: options?.continuationToken || undefined
+        };
+
+        if (options?.hierarchical) {
+            const prefix = this.getFolderPrefix(blobPrefix);
+            const pages = this.containerClient.listBlobsByHierarchy("/", { prefix: prefix }).byPage(pageSettings);
+            const page = (await pages.next()).value;
+
+            return {
+                blobs: page.segment.blobItems.map(blob => blob.name).filter(key => !this.isReservedBlob(key)),
+                folders: page.segment.blobPrefixes.map(folder => folder.name).filter(key => !this.isReservedBlob(key)),
+                continuationToken: page.continuationToken || null
+            };
+        }
+
+        const prefix = this.getFullKey(blobPrefix);
+        const pages = this.containerClient.listBlobsFlat({ prefix: prefix }).byPage(pageSettings);
+        const page = (await pages.next()).value;
+
+        return {
+            blobs: page.segment.blobItems.map(blob => blob.name).filter(key => !this.isReservedBlob(key)),
+            folders: [],
+            continuationToken: page.continuationToken || null
+        };
+    }
+
+    /**
+     * Iterates keys of the blobs with specified prefix, fetching them page by page.
+     * @param blobPrefix {string} Blob prefix.
+     * @param pageSize {number} Number of keys fetched per request.
+     */
+    public async *iterateBlobs(blobPrefix: string = "", pageSize?: number): AsyncIterableIterator<string> {
+        let continuationToken: string = null;
+
+        do {
+            const page = await this.listBlobsPage(blobPrefix, { pageSize: pageSize, continuationToken: continuationToken });
+            yield* page.blobs;
+            continuationToken = page.continuationToken;
+        }
+        while (continuationToken);
+    }
+
+    /**
+     * Returns properties and metadata of all the blobs in container or with specified prefix.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public async listBlobProperties(blobPrefix: string = ""): Promise<BlobProperties[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+        const allBlobs = await this.listAllBlobItems(prefix, { includeMetadata: true });
+
+        return allBlobs.map(blob => ({
+            key: blob.name,
+            size: blob.properties.contentLength,
+            contentType: blob.properties.contentType,
+            lastModified: blob.properties.lastModified,
+            etag: blob.properties.etag,
+            contentMD5: blob.properties.contentMD5 ? this.toBase64(blob.properties.contentMD5) : null,
+            metadata: blob.metadata || {}
+        }));
+    }
+
+    /**
+     * Returns properties and metadata of a blob, or null if the blob doesn't exist.
+     * @param blobKey {string} Blob key.
+     */
+    public async getBlobProperties(blobKey: string): Promise<BlobProperties> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        try {
+            const properties = await this.containerClient.getBlobClient(fullBlobKey).getProperties();
+
+            return {
+                key: fullBlobKey,
+                size: properties.contentLength,
+                contentType: properties.contentType,
+                lastModified: properties.lastModified,
+                etag: properties.etag,
+                contentMD5: properties.contentMD5 ? this.toBase64(properties.contentMD5) : null,
+                metadata: properties.metadata || {}
+            };
+        }
+        catch (error) {
+            if (error?.statusCode === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Replaces user metadata of a blob.
+     * @param blobKey {string} Blob key.
+     * @param metadata {Bag<string>} Metadata, e.g. `{ author: "john" }`.
+     * @param conditions {BlobConditions} Optional conditions, e.g. `ifMatch` with ETag of previously read blob.
+     */
+    public async setBlobMetadata(blobKey: string, metadata: Bag<string>, conditions?: BlobConditions): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        try {
+            await this.containerClient.getBlobClient(fullBlobKey).setMetadata(metadata, {
+                conditions: conditions,
+                customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+            });
+        }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to set metadata of blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Returns index tags of a blob.
+     * @param blobKey {string} Blob key.
+     */
+    public async getBlobTags(blobKey: string): Promise<Bag<string>> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        try {
+            const response = await this.containerClient.getBlobClient(fullBlobKey).getTags();
+            return response.tags;
+        }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to get tags of blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Replaces index tags of a blob.
+     * @param blobKey {string} Blob key.
+     * @param tags {Bag<string>} Tags, e.g. `{ kind: "media" }`.
+     */
+    public async setBlobTags(blobKey: string, tags: Bag<string>): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        try {
+            await this.containerClient.getBlobClient(fullBlobKey).setTags(tags);
+        }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to set tags of blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Returns keys of the blobs (under base path) which tags match specified expression.
+     * @param tagFilterExpression {string} Expression, e.g. `kind = 'media' AND owner = 'john'`.
+     */
+    public async findBlobsByTags(tagFilterExpression: string): Promise<string[]> {
+        await this.initialize();
+        const keys = [];
+
+        for await (const blob of this.containerClient.findBlobsByTags(tagFilterExpression)) {
+            if (!this.basePath || blob.name.startsWith(`${this.basePath}/`)) {
+                keys.push(blob.name);
+            }
+        }
+
+        return keys;
+    }
+
     /**
      * Uploads specified content into storage.
      * @param blobKey {string} Blob key.
      * @param content
      * @param contentType
+     * @param options {BlobUploadOptions} Optional HTTP headers, metadata and conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
      */
-    public async uploadBlob(blobKey: string, content: Uint8Array, contentType?: string): Promise<void> {
+    public async uploadBlob(blobKey: string, content: Uint8Array, contentType?: string, options?: BlobUploadOptions): Promise<void> {
         await this.initialize();
 
         blobKey = this.getFullKey(blobKey);
 
         if (!contentType) {
-            const fileName = blobKey.split("/").pop();
-            contentType = mime.getType(fileName) || "application/octet-stream";
+            contentType = this.getContentType(blobKey);
         }
 
-        const blockBlobClient = this.containerClient.getBlockBlobClient(blobKey);
-        try {
-            await blockBlobClient.upload(
-                content,
-                content.byteLength,
-                {
-                    blobHTTPHeaders: { blobContentType: contentType }
-                }
-            );
-        }
-        catch (error) {
-            throw new Error(`Unable to upload blob ${blobKey}. ${error.stack || error.message}`);
-        }
+        await this.trackOperation("uploadBlob", blobKey, async (telemetry) => {
+            await this.snapshotBeforeOverwrite(blobKey, options);
+
+            const blockBlobClient = this.containerClient.getBlockBlobClient(blobKey);
+            try {
+                const encodedContent = await this.encodeContent(content, contentType, options);
+                telemetry.size = encodedContent.content.byteLength;
+
+                const response = await blockBlobClient.upload(
+                    encodedContent.content,
+                    encodedContent.content.byteLength,
+                    {
+                        blobHTTPHeaders: this.getBlobHttpHeaders(blobKey, contentType, encodedContent.contentEncoding, options),
+                        metadata: options?.metadata,
+                        conditions: { ifMatch: options?.ifMatch, ifNoneMatch: options?.ifNoneMatch },
+                        customerProvidedKey: await this.getCustomerProvidedKey(blobKey),
+                        encryptionScope: this.encryptionScope
+                    }
+                );
+
+                telemetry.statusCode = response._response.status;
+            }
+            catch (error) {
+                throw classifyBlobError(blobKey, error, `Unable to upload blob ${blobKey}.`);
+            }
+        });
     }
 
     /**
@@ -91,19 +329,81 @@ export abstract class AzureBlobStorage implements IBlobStorage {
      * @param blobKey {string} Blob key.
      */
     public async downloadBlob(blobKey: string): Promise<Uint8Array> {
+        const downloadedBlob = await this.downloadBlobWithETag(blobKey);
+        return downloadedBlob?.content;
+    }
+
+    /**
+     * Downloads blob content along with its ETag.
+     * @param blobKey {string} Blob key.
+     */
+    public async downloadBlobWithETag(blobKey: string): Promise<DownloadedBlob> {
         await this.initialize();
         const fullBlobKey = this.getFullKey(blobKey);
         const blockBlobClient = this.containerClient.getBlobClient(fullBlobKey);
-        const downloadBlockBlobResponse = await blockBlobClient.download();
 
-        if (downloadBlockBlobResponse.blobBody) {
-            const blob = await downloadBlockBlobResponse.blobBody;
-            const arrayBuffer = await blob.arrayBuffer();
-            const unit8Array = new Uint8Array(arrayBuffer);
-            return unit8Array;
-        }
+        return this.trackOperation("downloadBlob", fullBlobKey, async (telemetry) => {
+            let downloadBlockBlobResponse: BlobDownloadResponseParsed;
+
+            try {
+                downloadBlockBlobResponse = await blockBlobClient.download(0, undefined, {
+                    customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+                });
+            }
+            catch (error) {
+                throw classifyBlobError(fullBlobKey, error, `Unable to download blob ${fullBlobKey}.`);
+            }
+
+            telemetry.statusCode = downloadBlockBlobResponse._response.status;
+
+            if (downloadBlockBlobResponse.blobBody) {
+                const blob = await downloadBlockBlobResponse.blobBody;
+                const arrayBuffer = await blob.arrayBuffer();
+                const unit8Array = new Uint8Array(arrayBuffer);
+                telemetry.size = unit8Array.byteLength;
+
+                return { content: unit8Array, etag: downloadBlockBlobResponse.etag };
+            }
+
+            throw new Error(`Unable to download blob ${blobKey}.`);
+        });
+    }
+
+    /**
+     * Downloads a range of blob content.
+     * @param blobKey {string} Blob key.
+     * @param offset {number} Position of the first byte.
+     * @param count {number} Number of bytes, until the end of the blob if not specified.
+     */
+    public async downloadBlobRange(blobKey: string, offset: number, count?: number): Promise<Uint8Array> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blobClient = this.containerClient.getBlobClient(fullBlobKey);
+
+        return this.trackOperation("downloadBlobRange", fullBlobKey, async (telemetry) => {
+            let downloadBlobResponse: BlobDownloadResponseParsed;
+
+            try {
+                downloadBlobResponse = await blobClient.download(offset, count, {
+                    customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+                });
+            }
+            catch (error) {
+                throw classifyBlobError(fullBlobKey, error, `Unable to download blob ${fullBlobKey}.`);
+            }
 
-        throw new Error(`Unable to download blob ${blobKey}.`);
+            telemetry.statusCode = downloadBlobResponse._response.status;
+
+            if (downloadBlobResponse.blobBody) {
+                const blob = await downloadBlobResponse.blobBody;
+                const content = new Uint8Array(await blob.arrayBuffer());
+                telemetry.size = content.byteLength;
+
+                return content;
+            }
+
+            throw new Error(`Unable to download blob ${blobKey}.`);
+        });
     }
 
     /**
@@ -134,79 +434,257 @@ export abstract class AzureBlobStorage implements IBlobStorage {
     /**
      * Removes specified blob from storage.
      * @param blobKey {string} Blob key.
+     * @param conditions {BlobConditions} Optional conditions, e.g. `ifMatch` with ETag of previously downloaded blob.
      */
-    public async deleteBlob(blobKey: string): Promise<void> {
+    public async deleteBlob(blobKey: string, conditions?: BlobConditions): Promise<void> {
         await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        await this.trackOperation("deleteBlob", fullBlobKey, async (telemetry) => {
+            try {
+                const blockBlobClient = this.containerClient.getBlockBlobClient(fullBlobKey);
+                const response = await blockBlobClient.delete({ conditions: conditions, deleteSnapshots: "include" });
+                telemetry.statusCode = response._response.status;
+            }
+            catch (error) {
+                if (error?.statusCode === 404) {
+                    telemetry.statusCode = 404;
+                    return; // blob was already deleted
+                }
+                throw classifyBlobError(fullBlobKey, error, `Unable to delete blob ${fullBlobKey}.`);
+            }
+        });
+    }
+
+    /**
+     * Creates read-only snapshot of current blob content.
+     * @param blobKey {string} Blob key.
+     * @returns Snapshot timestamp.
+     */
+    public async createBlobSnapshot(blobKey: string): Promise<string> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
 
         try {
-            const fullBlobKey = this.getFullKey(blobKey);
-            const blockBlobClient = this.containerClient.getBlockBlobClient(fullBlobKey);
-            await blockBlobClient.delete();
+            const response = await this.containerClient.getBlobClient(fullBlobKey).createSnapshot({
+                customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+            });
+            return response.snapshot;
         }
         catch (error) {
-            if (error?.statusCode === 404) {
-                return; // blob was already deleted
+            throw classifyBlobError(fullBlobKey, error, `Unable to create snapshot of blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Returns current state, snapshots and versions of a blob (including soft-deleted ones), the current state first
+     * and then the newest first.
+     * @param blobKey {string} Blob key.
+     */
+    public async listBlobVersions(blobKey: string): Promise<BlobVersion[]> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blobItems = await this.listAllBlobItems(fullBlobKey, { includeSnapshots: true, includeVersions: true, includeDeleted: true });
+
+        const versions = blobItems
+            .filter(blob => blob.name === fullBlobKey)
+            .map(blob => ({
+                key: blob.name,
+                snapshot: blob.snapshot || undefined,
+                versionId: blob.versionId || undefined,
+                size: blob.properties.contentLength,
+                lastModified: blob.properties.lastModified,
+                etag: blob.properties.etag,
+                isCurrent: !blob.snapshot && !blob.deleted && (!blob.versionId || !!blob.isCurrentVersion),
+                isDeleted: !!blob.deleted
+            }));
+
+        return sortBlobVersions(versions);
+    }
+
+    /**
+     * Downloads content of a blob snapshot or version.
+     * @param blobKey {string} Blob key.
+     * @param version {BlobVersionReference} Snapshot or version returned by `listBlobVersions`.
+     */
+    public async downloadBlobVersion(blobKey: string, version: BlobVersionReference): Promise<Uint8Array> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const blobClient = this.getBlobVersionClient(fullBlobKey, version);
+
+        try {
+            const downloadBlobResponse = await blobClient.download(0, undefined, {
+                customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+            });
+
+            return await this.readDownloadResponse(downloadBlobResponse);
+        }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to download blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Promotes a snapshot or version to the current state of a blob. With "blobStorageSnapshotOnOverwrite" setting
+     * enabled, the replaced content gets snapshotted, so the restore can be undone.
+     * @param blobKey {string} Blob key.
+     * @param version {BlobVersionReference} Snapshot or version returned by `listBlobVersions`.
+     */
+    public async restoreBlobVersion(blobKey: string, version: BlobVersionReference): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+        const sourceUrl = this.getBlobVersionClient(fullBlobKey, version).url;
+
+        await this.snapshotBeforeOverwrite(fullBlobKey);
+
+        try {
+            const poller = await this.containerClient.getBlobClient(fullBlobKey).beginCopyFromURL(sourceUrl);
+            const result = await poller.pollUntilDone();
+
+            if (result.copyStatus !== "success") {
+                throw new Error(`Copy status: ${result.copyStatus}.`);
             }
-            throw error;
         }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to restore blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Restores soft-deleted blob along with its snapshots. Requires soft delete enabled on storage account,
+     * with blob versioning enabled deleted blobs get restored by promoting their version instead.
+     * @param blobKey {string} Blob key.
+     */
+    public async undeleteBlob(blobKey: string): Promise<void> {
+        await this.initialize();
+        const fullBlobKey = this.getFullKey(blobKey);
+
+        try {
+            await this.containerClient.getBlobClient(fullBlobKey).undelete();
+        }
+        catch (error) {
+            throw classifyBlobError(fullBlobKey, error, `Unable to undelete blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Returns keys of soft-deleted blobs with specified prefix, which can be restored with `undeleteBlob`.
+     * @param blobPrefix {string} Blob prefix.
+     */
+    public async listDeletedBlobs(blobPrefix: string = ""): Promise<string[]> {
+        await this.initialize();
+        const prefix = this.getFullKey(blobPrefix);
+        const blobItems = await this.listAllBlobItems(prefix, { includeDeleted: true });
+        const deletedKeys = blobItems.filter(blob => blob.deleted).map(blob => blob.name);
+
+        return [...new Set(deletedKeys)];
     }
 
     /**
      * Removes blobs from storage with specified prefix.
      * if prefix is empty then all blobs from container will be removed
      * @param blobPrefix
+     * @returns Keys of deleted blobs and blobs which couldn't be deleted.
      */
-    protected async deleteBlobFolder(blobPrefix: string): Promise<void> {
+    public async deleteBlobFolder(blobPrefix: string): Promise<BlobFolderDeletionReport> {
         await this.initialize();
 
-        if (!this.blobBatchClient) {
-            throw new Error("deleteBlobFolder works only with client created from the blob storage connection string");
-        }
         const fullBlobPrefix = this.getFullKey(blobPrefix);
         const allBlobs = await this.listAllBlobItems(fullBlobPrefix);
+        const keys = allBlobs.map(blob => blob.name);
+        const report: BlobFolderDeletionReport = { deleted: [], failed: [] };
+
+        if (this.blobBatchClient) {
+            const batches = this.chunkArray(keys, deleteBatchSize);
+
+            for (const batchGroup of this.chunkArray(batches, deleteBatchConcurrency)) {
+                await Promise.all(batchGroup.map(batch => this.processDeleteBatch(batch, report)));
+            }
+        }
+        else {
+            for (const keyGroup of this.chunkArray(keys, deleteConcurrency)) {
+                await Promise.all(keyGroup.map(key => this.processDelete(key, report)));
+            }
+        }
+
+        if (report.failed.length > 0) {
+            this.logger.trackEvent("AzureBlobStorage", { message: `Delete blob folder failed for '${blobPrefix}': ${report.failed.length} items.` });
+        }
+
+        return report;
+    }
+
+    protected async processDeleteBatch(keys: string[], report: BlobFolderDeletionReport): Promise<void> {
+        const batchDeleteRequest = new BlobBatch();
+        const keysByUrl = new Map<string, string>();
 
         try {
-            const clients = allBlobs.map(item => this.containerClient.getBlockBlobClient(item.name));
+            for (const key of keys) {
+                const blobClient = this.containerClient.getBlobClient(key);
+                keysByUrl.set(blobClient.url, key);
+                await batchDeleteRequest.deleteBlob(blobClient.url, this.containerClient.credential, { deleteSnapshots: "include" });
+            }
+
+            const result = await this.trackOperation("deleteBlobBatch", keys[0], async (telemetry) => {
+                telemetry.blobCount = keys.length;
 
-            if (clients.length > 0) {
-                if (clients.length < 256) {
-                    await this.processDeleteBatch(clients, blobPrefix);
+                const response = await this.blobBatchClient.submitBatch(batchDeleteRequest, {});
+                telemetry.statusCode = response._response.status;
+
+                return response;
+            });
+
+            for (const subResponse of result.subResponses) {
+                const key = keysByUrl.get(subResponse._request.url);
+
+                if (subResponse.status < 300 || subResponse.status === 404) {
+                    report.deleted.push(key);
                 }
                 else {
-                    const chunks = this.chunkArray(clients, 250);
-                    chunks.map(async chunk => await this.processDeleteBatch(chunk, blobPrefix));
+                    report.failed.push({ key: key, error: subResponse.errorCode || `${subResponse.status}` });
                 }
             }
         }
         catch (error) {
-            throw new Error(`Unable to delete blobs in ${blobPrefix}. Error: ${error}`);
+            keys.forEach(key => report.failed.push({ key: key, error: error.message }));
         }
     }
 
-    protected async processDeleteBatch(clients: BlockBlobClient[], blobPrefix: string) {
-        const batchDeleteRequest = new BlobBatch();
+    protected async processDelete(key: string, report: BlobFolderDeletionReport): Promise<void> {
+        try {
+            await this.trackOperation("deleteBlob", key, async (telemetry) => {
+                const response = await this.containerClient.getBlobClient(key).deleteIfExists({ deleteSnapshots: "include" });
+                telemetry.statusCode = response._response.status;
+            });
 
-        for (const client of clients) {
-            await batchDeleteRequest.deleteBlob(client.url, this.containerClient.credential, {});
+            report.deleted.push(key);
         }
-
-        const result = await this.blobBatchClient.submitBatch(batchDeleteRequest, {});
-
-        if (result.subResponsesFailedCount !== 0) {
-            this.logger.trackEvent("AzureBlobStorage", { message: `Delete blob folder failed for '${blobPrefix}': ${result.subResponsesFailedCount} items.` });
+        catch (error) {
+            report.failed.push({ key: key, error: error.code || error.message });
         }
     }
 
-    protected async listAllBlobItems(prefix?: string): Promise<BlobItem[]> {
+    protected async listAllBlobItems(prefix?: string, options?: ContainerListBlobsOptions): Promise<BlobItem[]> {
         const allItems = [];
 
-        for await (const blob of this.containerClient.listBlobsFlat({ prefix: prefix })) {
-            allItems.push(blob);
+        for await (const blob of this.containerClient.listBlobsFlat({ ...options, prefix: prefix })) {
+            if (!this.isReservedBlob(blob.name)) {
+                allItems.push(blob);
+            }
         }
 
         return allItems;
     }
 
+    /**
+     * Checks if the blob is reserved for internal use of the storage client, so that it's left out of listings
+     * and folder operations.
+     * @param fullBlobKey {string} Full blob key or folder prefix.
+     */
+    protected isReservedBlob(fullBlobKey: string): boolean {
+        return false;
+    }
+
     protected async createContainer(): Promise<void> {
         await this.initialize();
         await this.containerClient.createIfNotExists();
@@ -233,6 +711,15 @@ export abstract class AzureBlobStorage implements IBlobStorage {
         return value;
     }
 
+    /**
+     * Returns full prefix of a virtual folder, ending with "/" (or empty string for root folder).
+     * @param folderKey {string} Folder key.
+     */
+    protected getFolderPrefix(folderKey: string): string {
+        const fullKey = this.getFullKey(folderKey);
+        return fullKey ? `${fullKey}/` : "";
+    }
+
     protected getFullKey(blobKey: string): string {
         const fullUrl = !!this.basePath
             ? `${this.basePath}/${blobKey}`
@@ -242,15 +729,315 @@ export abstract class AzureBlobStorage implements IBlobStorage {
     }
 
     /**
-   * Returns an array with arrays of the given size.
+     * Infers content type from the file extension of the blob key.
+     * @param blobKey {string} Blob key.
+     */
+    protected getContentType(blobKey: string): string {
+        const fileName = blobKey.split("/").pop();
+        return mime.getType(fileName) || "application/octet-stream";
+    }
+
+    /**
+     * Encodes content before upload. Content is uploaded as is, unless compression is supported by the platform.
+     * @param content {Uint8Array} Content.
+     * @param contentType {string} Content type.
+     * @param options {BlobUploadOptions} Upload options.
+     */
+    protected async encodeContent(content: Uint8Array, contentType: string, options?: BlobUploadOptions): Promise<EncodedContent> {
+        return { content: content, contentEncoding: options?.contentEncoding };
+    }
+
+    /**
+     * Returns HTTP headers of uploaded blob, with `Cache-Control` taken from options or from rules of "blobStorageCacheControl" setting.
+     */
+    protected getBlobHttpHeaders(blobKey: string, contentType: string, contentEncoding: string, options?: BlobUploadOptions): BlobHTTPHeaders {
+        return {
+            blobContentType: contentType,
+            blobContentEncoding: contentEncoding,
+            blobCacheControl: options?.cacheControl || this.getCacheControl(blobKey),
+            blobContentDisposition: options?.contentDisposition,
+            blobContentLanguage: options?.contentLanguage
+        };
+    }
+
+    /**
+     * Finds `Cache-Control` rule by file extension of the blob, e.g. `{ "html": "no-cache", "*": "public, max-age=3600" }`.
+     */
+    protected getCacheControl(blobKey: string): string {
+        if (!this.cacheControlRules) {
+            return undefined;
+        }
+
+        const fileName = blobKey.split("/").pop();
+        const extensionIndex = fileName.lastIndexOf(".");
+        const extension = extensionIndex > 0 ? fileName.substring(extensionIndex + 1).toLowerCase() : "";
+
+        return this.cacheControlRules[extension] || this.cacheControlRules[`.${extension}`] || this.cacheControlRules["*"];
+    }
+
+    /**
+     * Snapshots existing blob before it gets overwritten, when "blobStorageSnapshotOnOverwrite" setting is enabled.
+     * @param fullBlobKey {string} Full blob key.
+     * @param conditions {BlobConditions} Conditions of the overwrite, snapshot is taken only if they are met.
+     */
+    protected async snapshotBeforeOverwrite(fullBlobKey: string, conditions?: BlobConditions): Promise<void> {
+        if (!this.snapshotOnOverwrite || conditions?.ifNoneMatch === "*") {
+            return; // nothing to preserve
+        }
+
+        try {
+            await this.containerClient.getBlobClient(fullBlobKey).createSnapshot({
+                conditions: { ifMatch: conditions?.ifMatch },
+                customerProvidedKey: await this.getCustomerProvidedKey(fullBlobKey)
+            });
+        }
+        catch (error) {
+            if (error?.statusCode === 404) {
+                return; // new blob
+            }
+            throw classifyBlobError(fullBlobKey, error, `Unable to create snapshot of blob ${fullBlobKey}.`);
+        }
+    }
+
+    /**
+     * Applies "blobStorageEncryptionScope" or "blobStorageEncryptionKeyProvider" setting.
+     * @param encryptionScope {string} Encryption scope defined on storage account.
+     * @param encryptionKeyProvider {BlobEncryptionKeyProvider} Provider of customer-provided keys.
+     */
+    protected configureEncryption(encryptionScope: string, encryptionKeyProvider: BlobEncryptionKeyProvider): void {
+        if (encryptionScope && encryptionKeyProvider) {
+            throw new Error(`Settings "blobStorageEncryptionScope" and "blobStorageEncryptionKeyProvider" can't be used together.`);
+        }
+
+        this.encryptionScope = encryptionScope || undefined;
+        this.encryptionKeyProvider = encryptionKeyProvider || undefined;
+    }
+
+    /**
+     * Returns customer-provided key of a blob, or undefined if "blobStorageEncryptionKeyProvider" setting isn't specified.
+     * @param fullBlobKey {string} Full blob key.
+     */
+    protected async getCustomerProvidedKey(fullBlobKey: string): Promise<CpkInfo> {
+        if (!this.encryptionKeyProvider) {
+            return undefined;
+        }
+
+        const encryptionKey = await this.encryptionKeyProvider(fullBlobKey);
+
+        if (!encryptionKey) {
+            throw new BlobEncryptionKeyError(fullBlobKey, "EncryptionKeyNotProvided");
+        }
+
+        const keyBytes = this.fromBase64(encryptionKey);
+
+        if (keyBytes.byteLength !== 32) {
+            throw new BlobEncryptionKeyError(fullBlobKey, "InvalidEncryptionKey");
+        }
+
+        const keyHash = await crypto.subtle.digest("SHA-256", keyBytes);
+
+        return {
+            encryptionKey: encryptionKey,
+            encryptionKeySha256: this.toBase64(new Uint8Array(keyHash)),
+            encryptionAlgorithm: "AES256"
+        };
+    }
+
+    /**
+     * Returns client of a blob snapshot or version.
+     * @param fullBlobKey {string} Full blob key.
+     * @param version {BlobVersionReference} Snapshot or version.
+     */
+    protected getBlobVersionClient(fullBlobKey: string, version: BlobVersionReference): BlobClient {
+        const blobClient = this.containerClient.getBlobClient(fullBlobKey);
+
+        if (version?.versionId) {
+            return blobClient.withVersion(version.versionId);
+        }
+
+        if (version?.snapshot) {
+            return blobClient.withSnapshot(version.snapshot);
+        }
+
+        throw new Error(`Snapshot or version required to access previous state of blob ${fullBlobKey}.`);
+    }
+
+    /**
+     * Reads content of download response in browser.
+     * @param downloadBlobResponse {BlobDownloadResponseParsed} Download response.
+     */
+    protected async readDownloadResponse(downloadBlobResponse: BlobDownloadResponseParsed): Promise<Uint8Array> {
+        if (!downloadBlobResponse.blobBody) {
+            throw new Error(`Unable to read content of download response.`);
+        }
+
+        const blob = await downloadBlobResponse.blobBody;
+        return new Uint8Array(await blob.arrayBuffer());
+    }
+
+    /**
+     * Runs storage operation and reports it to logger as dependency, unless disabled with "blobStorageTelemetry" setting.
+     * @param operationName {string} Name of the operation, e.g. "uploadBlob".
+     * @param fullBlobKey {string} Full key of the blob (or prefix) the operation works with.
+     * @param operation Operation, which fills in size and status code of the telemetry.
+     */
+    protected async trackOperation<T>(operationName: string, fullBlobKey: string, operation: (telemetry: BlobOperationTelemetry) => Promise<T>): Promise<T> {
+        const telemetry: BlobOperationTelemetry = {};
+
+        if (this.telemetrySettings?.enabled === false) {
+            return operation(telemetry);
+        }
+
+        const startTime = Date.now();
+        let success = false;
+
+        try {
+            const result = await this.runTrackedOperation(telemetry, operation);
+            success = true;
+
+            return result;
+        }
+        catch (error) {
+            telemetry.statusCode = error?.statusCode ?? telemetry.statusCode;
+            throw error;
+        }
+        finally {
+            await this.reportOperation(operationName, fullBlobKey, telemetry, Date.now() - startTime, success);
+        }
+    }
+
+    /**
+     * Runs tracked operation. Platforms able to observe requests of the operation count its retries.
+     * @param telemetry {BlobOperationTelemetry} Telemetry of the operation.
+     * @param operation Operation.
+     */
+    protected async runTrackedOperation<T>(telemetry: BlobOperationTelemetry, operation: (telemetry: BlobOperationTelemetry) => Promise<T>): Promise<T> {
+        return operation(telemetry);
+    }
+
+    private async reportOperation(operationName: string, fullBlobKey: string, telemetry: BlobOperationTelemetry, duration: number, success: boolean): Promise<void> {
+        try {
+            const properties: Bag<string> = {
+                type: dependencyType,
+                target: this.getTelemetryTarget(),
+                key: await this.getTelemetryKey(fullBlobKey),
+                duration: `${duration}`,
+                success: `${success}`
+            };
+
+            if (telemetry.statusCode !== undefined) {
+                properties.resultCode = `${telemetry.statusCode}`;
+            }
+
+            if (telemetry.size !== undefined) {
+                properties.size = `${telemetry.size}`;
+            }
+
+            if (telemetry.blobCount !== undefined) {
+                properties.blobCount = `${telemetry.blobCount}`;
+            }
+
+            if (telemetry.retryCount !== undefined) {
+                properties.retryCount = `${telemetry.retryCount}`;
+            }
+
+            await this.logger.trackDependency(operationName, properties);
+        }
+        catch (error) {
+            // telemetry failures shouldn't affect storage operations
+        }
+    }
+
+    /**
+     * Returns host and path of the container, without SAS token.
+     */
+    private getTelemetryTarget(): string {
+        if (!this.containerClient) {
+            return undefined;
+        }
+
+        const containerUrl = new URL(this.containerClient.url);
+        return `${containerUrl.host}${containerUrl.pathname}`;
+    }
+
+    /**
+     * Returns blob key reported in telemetry, or its SHA-256 hash when "redactKeys" option of "blobStorageTelemetry" setting is enabled.
+     * @param fullBlobKey {string} Full blob key.
+     */
+    protected async getTelemetryKey(fullBlobKey: string): Promise<string> {
+        if (!this.telemetrySettings?.redactKeys || !fullBlobKey) {
+            return fullBlobKey;
+        }
+
+        const keyHash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(fullBlobKey));
+        return `sha256:${this.toBase64(new Uint8Array(keyHash))}`;
+    }
+
+    /**
+     * Returns options of storage client pipeline with retry policy and timeout.
+     * @param retrySettings {BlobRetrySettings} Value of "blobStorageRetry" setting.
+     * @param timeoutInMs {number} Value of "blobStorageTimeout" setting, i.e. server timeout of each try
+     * (rounded down to seconds, as the service accepts it only in seconds).
+     */
+    protected getPipelineOptions(retrySettings: BlobRetrySettings, timeoutInMs: number): StoragePipelineOptions {
+        if (!retrySettings && !timeoutInMs) {
+            return {};
+        }
+
+        return {
+            retryOptions: {
+                retryPolicyType: retrySettings?.backoff === "fixed" ? StorageRetryPolicyType.FIXED : StorageRetryPolicyType.EXPONENTIAL,
+                maxTries: retrySettings?.maxTries,
+                retryDelayInMs: retrySettings?.retryDelayInMs,
+                maxRetryDelayInMs: retrySettings?.maxRetryDelayInMs,
+                tryTimeoutInMs: timeoutInMs || undefined
+            }
+        };
+    }
+
+    /**
+     * Throws the same error as the service when range starts outside of blob content.
+     */
+    protected assertRange(blobSize: number, offset: number): void {
+        if (offset < 0 || (offset > 0 && offset >= blobSize)) {
+            throw new RestError("The range specified is invalid for the current size of the resource.", { statusCode: 416, code: "InvalidRange" });
+        }
+    }
+
+    /**
+     * Encodes bytes as Base64 string (in both browser and Node.JS).
+     * @param bytes {Uint8Array} Bytes to encode.
+     */
+    protected toBase64(bytes: Uint8Array): string {
+        let binary = "";
+        bytes.forEach(byte => binary += String.fromCharCode(byte));
+
+        return btoa(binary);
+    }
+
+    /**
+     * Decodes Base64 string into bytes (in both browser and Node.JS).
+     * @param base64 {string} Base64 string.
+     */
+    protected fromBase64(base64: string): Uint8Array {
+        try {
+            return Uint8Array.from(atob(base64), character => character.charCodeAt(0));
+        }
+        catch (error) {
+            return new Uint8Array(0);
+        }
+    }
+
+    /**
+   * Returns an array with arrays of the given size. Source array is left intact.
    * @param srcArray {Array} Array to split.
    * @param chunkSize {Integer} Size of every group.
    */
-    protected chunkArray(srcArray: any[], chunkSize: number): [][] {
+    protected chunkArray<T>(srcArray: T[], chunkSize: number): T[][] {
         const results = [];
 
-        while (srcArray.length) {
-            results.push(srcArray.splice(0, chunkSize));
+        for (let offset = 0; offset < srcArray.length; offset += chunkSize) {
+            results.push(srcArray.slice(offset, offset + chunkSize));
         }
 
         return results;
@@ -0,0 +1,520 @@
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { defaultPageSize } from "@paperbits/common/constants";
+import { Logger } from "@paperbits/common/logging";
+import * as Objects from "@paperbits/common/objects";
+import { Filter, IBlobStorage, IObjectStorage, Operator, OrderDirection, Page, Query } from "@paperbits/common/persistence";
+import { odata, TableClient, TableEntity, TableEntityResult, TableServiceClientOptions } from "@azure/data-tables";
+
+/**
+ * Maximum length of a string property of table entity (64 KiB of UTF-16 characters).
+ */
+const maxPropertyLength = 32 * 1024;
+
+/**
+ * Maximum number of data properties of an entity, which keeps the entity under 1 MiB size limit.
+ */
+const maxDataProperties = 15;
+
+/**
+ * Folder of blobs holding objects which don't fit into table entity.
+ */
+const overflowBlobFolder = "objects";
+
+/**
+ * Separator of path segments in row key, and the character following it, bounding row key range of objects under a path.
+ */
+const rowKeySeparator = "|";
+const rowKeySeparatorSuccessor = "}";
+
+/**
+ * Properties of table entity holding serialized object.
+ */
+interface ObjectEntity {
+    /**
+     * Original path of the object, e.g. "pages/home".
+     */
+    key: string;
+
+    /**
+     * Number of "data0", "data1", ... properties holding chunks of serialized object.
+     */
+    dataProperties: number;
+
+    /**
+     * Key of the blob holding serialized object, when it doesn't fit into table entity.
+     */
+    blobKey?: string;
+}
+
+/**
+ * Azure Table Storage implementation of object storage. Like in other object storages, paths are nodes of a single
+ * tree: objects are stored as entities where partition key is the root collection (e.g. "pages") and row key is
+ * the rest of the path (e.g. "home"). An object is stored either as a whole at its path, or as objects under it.
+ */
+export class AzureTableObjectStorage implements IObjectStorage {
+    private initializePromise: Promise<void>;
+    private tableClient: TableClient;
+
+    /**
+     * Creates Azure Table Storage object storage.
+     * @param settingsProvider {ISettingsProvider} Settings provider.
+     * @param logger {Logger} Logger.
+     * @param blobStorage {IBlobStorage} Blob storage keeping objects too large to be stored in table entity.
+     */
+    constructor(
+        private readonly settingsProvider: ISettingsProvider,
+        private readonly logger: Logger,
+        private readonly blobStorage?: IBlobStorage
+    ) {
+        this.initializePromise = null;
+        this.tableClient = null;
+    }
+
+    private async initialize(): Promise<void> {
+        if (!this.initializePromise) {
+            this.initializePromise = this.initTable();
+        }
+
+        return this.initializePromise;
+    }
+
+    private async initTable(): Promise<void> {
+        const tableName = await this.settingsProvider.getSetting<string>("tableStorageTableName");
+
+        if (!tableName) {
+            throw new Error(`Setting "tableStorageTableName" required to initialize AzureTableObjectStorage.`);
+        }
+
+        const connectionString = await this.settingsProvider.getSetting<string>("tableStorageConnectionString")
+            || await this.settingsProvider.getSetting<string>("blobStorageConnectionString");
+
+        if (connectionString) {
+            this.tableClient = TableClient.fromConnectionString(connectionString, tableName, this.getClientOptions(connectionString));
+            return;
+        }
+
+        const tableStorageUrl = await this.settingsProvider.getSetting<string>("tableStorageUrl");
+
+        if (tableStorageUrl) {
+            this.tableClient = new TableClient(tableStorageUrl, tableName, this.getClientOptions(tableStorageUrl));
+            return;
+        }
+
+        throw new Error(`Setting "tableStorageConnectionString", "blobStorageConnectionString" or "tableStorageUrl" required to initialize AzureTableObjectStorage.`);
+    }
+
+    /**
+     * Allows plain HTTP when the endpoint explicitly uses it, e.g. in case of storage emulator.
+     * @param connectionStringOrUrl {string} Connection string or service URL.
+     */
+    private getClientOptions(connectionStringOrUrl: string): TableServiceClientOptions {
+        return { allowInsecureConnection: /(^|=)http:\/\//i.test(connectionStringOrUrl) };
+    }
+
+    /**
+     * Creates the table if it doesn't exist yet.
+     */
+    public async createTable(): Promise<void> {
+        await this.initialize();
+        await this.tableClient.createTable();
+    }
+
+    /**
+     * Deletes the table with all the objects.
+     */
+    public async deleteTable(): Promise<void> {
+        await this.initialize();
+        await this.tableClient.deleteTable();
+    }
+
+    public async addObject<T>(key: string, dataObject: T): Promise<void> {
+        await this.updateObject(key, dataObject);
+    }
+
+    public async getObject<T>(key: string): Promise<T> {
+        await this.initialize();
+
+        const path = this.normalizePath(key);
+        const containingEntity = await this.findContainingEntity(path);
+
+        if (containingEntity) {
+            const containingObject = await this.readObject<object>(containingEntity);
+
+            if (containingEntity.key === path) {
+                return <T>containingObject;
+            }
+
+            return Objects.getObjectAt<T>(this.getRelativePath(containingEntity.key, path), containingObject) ?? null;
+        }
+
+        /* Path may point to a collection, which is assembled from objects stored under it. */
+        const entities = await this.listDescendantEntities(path);
+
+        if (entities.length === 0) {
+            return null;
+        }
+
+        const collection = {};
+
+        for (const entity of entities) {
+            Objects.setValue(this.getRelativePath(path, entity.key), collection, await this.readObject(entity));
+        }
+
+        return <T>collection;
+    }
+
+    public async updateObject<T>(key: string, dataObject: T): Promise<void> {
+        await this.initialize();
+
+        const path = this.normalizePath(key);
+        const containingEntity = await this.findContainingEntity(path);
+
+        if (containingEntity && containingEntity.key !== path) {
+            /* Object is a node of an object stored at ancestor path, which gets updated instead. */
+            const containingObject = await this.readObject<object>(containingEntity);
+            Objects.setValue(this.getRelativePath(containingEntity.key, path), containingObject, dataObject);
+
+            await this.writeEntity(containingEntity.key, containingObject);
+            return;
+        }
+
+        await this.writeEntity(path, dataObject);
+
+        /* Objects stored under the path are replaced along with it. */
+        await this.deleteEntities(await this.listDescendantEntities(path));
+    }
+
+    public async deleteObject(key: string): Promise<void> {
+        await this.initialize();
+
+        const path = this.normalizePath(key);
+        const containingEntity = await this.findContainingEntity(path);
+
+        if (containingEntity && containingEntity.key !== path) {
+            const containingObject = await this.readObject<object>(containingEntity);
+            const relativePath = this.getRelativePath(containingEntity.key, path);
+
+            if (Objects.getObjectAt(relativePath, containingObject) !== undefined) {
+                Objects.deleteNodeAt(relativePath, containingObject);
+                await this.writeEntity(containingEntity.key, containingObject);
+            }
+
+            return;
+        }
+
+        const entities = await this.listDescendantEntities(path);
+
+        if (containingEntity) {
+            entities.push(containingEntity);
+        }
+
+        await this.deleteEntities(entities);
+    }
+
+    /**
+     * Saves changes collected by offline object storage. Each item of a root collection in the delta (e.g. "pages/home")
+     * replaces stored object, or deletes it if the value is null.
+     * @param delta {Object} Changed objects by path, e.g. `{ pages: { home: {...}, about: null } }`.
+     */
+    public async saveChanges(delta: Object): Promise<void> {
+        for (const collectionKey of Object.keys(delta)) {
+            const collectionChanges = delta[collectionKey];
+
+            if (!Objects.isObject(collectionChanges)) {
+                await this.saveChange(collectionKey, collectionChanges);
+                continue;
+            }
+
+            for (const itemKey of Object.keys(collectionChanges)) {
+                await this.saveChange(`${collectionKey}/${itemKey}`, collectionChanges[itemKey]);
+            }
+        }
+    }
+
+    private async saveChange(path: string, dataObject: any): Promise<void> {
+        if (dataObject === null || dataObject === undefined) {
+            await this.deleteObject(path);
+        }
+        else {
+            await this.updateObject(path, dataObject);
+        }
+    }
+
+    /**
+     * Loads all the objects as a single tree.
+     */
+    public async loadData(): Promise<object> {
+        await this.initialize();
+
+        const entities = await this.queryEntities(null, "all objects");
+        const data = {};
+
+        for (const entity of entities) {
+            Objects.setValue(entity.key, data, await this.readObject(entity));
+        }
+
+        return data;
+    }
+
+    public async searchObjects<T>(key: string, query: Query<T> = Query.from<T>()): Promise<Page<T>> {
+        await this.initialize();
+
+        const path = this.normalizePath(key);
+        const items = await this.getObject<object>(path);
+        let collection: object[] = Objects.isObject(items) ? Object.values(items) : [];
+
+        collection = collection.filter(item => query.filters.every(filter => this.meetsFilter(item, filter)));
+
+        if (query.orderingBy) {
+            const modifier = query.orderDirection === OrderDirection.accending ? 1 : -1;
+
+            collection.sort((x, y) => {
+                const a = Objects.getObjectAt<any>(query.orderingBy, x);
+                const b = Objects.getObjectAt<any>(query.orderingBy, y);
+
+                if (a > b) {
+                    return modifier;
+                }
+
+                if (a < b) {
+                    return -modifier;
+                }
+
+                return 0;
+            });
+        }
+
+        return this.getPage(<T[]>collection, query.skipping || 0);
+    }
+
+    private getPage<T>(collection: T[], skip: number): Page<T> {
+        const page: Page<T> = {
+            value: collection.slice(skip, skip + defaultPageSize),
+            takeNext: null
+        };
+
+        if (skip + defaultPageSize < collection.length) {
+            page.takeNext = async () => this.getPage(collection, skip + defaultPageSize);
+        }
+
+        return page;
+    }
+
+    /**
+     * Checks if the object meets query filter, with the same semantics as offline object storage,
+     * i.e. string comparisons are case-insensitive and booleans support "equals" operator only.
+     */
+    private meetsFilter(item: object, filter: Filter<string, any>): boolean {
+        let left = Objects.getObjectAt<any>(filter.left, item);
+        let right = filter.right;
+
+        if (typeof right === "boolean") {
+            return filter.operator === Operator.equals && !!left === right;
+        }
+
+        if (!left) {
+            return false;
+        }
+
+        if (typeof left === "string") {
+            left = left.toUpperCase();
+        }
+
+        if (typeof right === "string") {
+            right = right.toUpperCase();
+        }
+
+        switch (filter.operator) {
+            case Operator.notEmpty:
+                return Array.isArray(left) ? left.length > 0 : true;
+
+            case Operator.contains:
+                if (Array.isArray(left) && Array.isArray(right)) {
+                    return right.some(value => left.includes(value));
+                }
+
+                return typeof left.includes === "function" && left.includes(right);
+
+            case Operator.equals:
+                return left === right;
+
+            default:
+                throw new Error(`Operator "${filter.operator}" not supported by AzureTableObjectStorage.`);
+        }
+    }
+
+    /**
+     * Writes object into entity at specified path, or into overflow blob if it doesn't fit into entity.
+     * @param path {string} Normalized path of the object.
+     * @param dataObject {T} Object.
+     */
+    private async writeEntity<T>(path: string, dataObject: T): Promise<void> {
+        const [partitionKey, rowKey] = this.getEntityKeys(path);
+        const serializedObject = JSON.stringify(dataObject);
+        const chunks = this.splitIntoChunks(serializedObject);
+        const entity: TableEntity<ObjectEntity> = { partitionKey: partitionKey, rowKey: rowKey, key: path, dataProperties: 0 };
+        const blobKey = `${overflowBlobFolder}/${path}.json`;
+
+        if (chunks.length <= maxDataProperties) {
+            for (const chunk of chunks) {
+                entity[`data${entity.dataProperties}`] = chunk;
+                entity.dataProperties += 1;
+            }
+        }
+        else {
+            if (!this.blobStorage) {
+                throw new Error(`Unable to update object ${path}: it exceeds maximum size of table entity and no blob storage configured.`);
+            }
+
+            await this.blobStorage.uploadBlob(blobKey, new TextEncoder().encode(serializedObject), "application/json");
+            entity.blobKey = blobKey;
+
+            this.logger.trackEvent("AzureTableObjectStorage", { message: `Object ${path} stored in blob ${blobKey}.` });
+        }
+
+        try {
+            await this.tableClient.upsertEntity(entity, "Replace");
+        }
+        catch (error) {
+            throw new Error(`Unable to update object ${path}. ${error.stack || error.message}`);
+        }
+
+        if (!entity.blobKey && this.blobStorage) {
+            /* Drops the blob left by previous, larger version of the object, if any. */
+            await this.blobStorage.deleteBlob(blobKey);
+        }
+    }
+
+    /**
+     * Splits serialized object into chunks fitting into string property, keeping surrogate pairs
+     * (e.g. emoji) within one chunk, as their halves don't survive encoding of the property separately.
+     * @param serializedObject {string} Serialized object.
+     */
+    private splitIntoChunks(serializedObject: string): string[] {
+        const chunks: string[] = [];
+        let offset = 0;
+
+        while (offset < serializedObject.length) {
+            let end = Math.min(offset + maxPropertyLength, serializedObject.length);
+            const lastCharCode = serializedObject.charCodeAt(end - 1);
+
+            if (end < serializedObject.length && lastCharCode >= 0xd800 && lastCharCode <= 0xdbff) {
+                end -= 1;
+            }
+
+            chunks.push(serializedObject.substring(offset, end));
+            offset = end;
+        }
+
+        return chunks;
+    }
+
+    private async deleteEntities(entities: TableEntityResult<ObjectEntity>[]): Promise<void> {
+        for (const entity of entities) {
+            try {
+                await this.tableClient.deleteEntity(entity.partitionKey, entity.rowKey);
+            }
+            catch (error) {
+                if (error?.statusCode !== 404) {
+                    throw new Error(`Unable to delete object ${entity.key}. ${error.stack || error.message}`);
+                }
+            }
+
+            if (entity.blobKey && this.blobStorage) {
+                await this.blobStorage.deleteBlob(entity.blobKey);
+            }
+        }
+    }
+
+    /**
+     * Returns entity stored at specified path or at the nearest ancestor path, i.e. entity holding the object.
+     * @param path {string} Normalized path of the object.
+     */
+    private async findContainingEntity(path: string): Promise<TableEntityResult<ObjectEntity>> {
+        const [partitionKey, rowKey] = this.getEntityKeys(path);
+        const rowKeySegments = rowKey ? rowKey.split(rowKeySeparator) : [];
+        const rowKeyFilters = [odata`RowKey eq ''`];
+
+        for (let index = 1; index <= rowKeySegments.length; index += 1) {
+            rowKeyFilters.push(odata`RowKey eq ${rowKeySegments.slice(0, index).join(rowKeySeparator)}`);
+        }
+
+        const entities = await this.queryEntities(`${odata`PartitionKey eq ${partitionKey}`} and (${rowKeyFilters.join(" or ")})`, path);
+
+        return entities.reduce((nearest, entity) => !nearest || entity.rowKey.length > nearest.rowKey.length ? entity : nearest, null);
+    }
+
+    /**
+     * Returns entities stored under specified path, e.g. "pages/home" and "pages/about" under "pages".
+     * @param path {string} Normalized path of the collection.
+     */
+    private async listDescendantEntities(path: string): Promise<TableEntityResult<ObjectEntity>[]> {
+        const [partitionKey, rowKey] = this.getEntityKeys(path);
+
+        const filter = rowKey
+            ? odata`PartitionKey eq ${partitionKey} and RowKey gt ${rowKey + rowKeySeparator} and RowKey lt ${rowKey + rowKeySeparatorSuccessor}`
+            : odata`PartitionKey eq ${partitionKey} and RowKey gt ''`;
+
+        return this.queryEntities(filter, path);
+    }
+
+    private async queryEntities(filter: string, path: string): Promise<TableEntityResult<ObjectEntity>[]> {
+        const entities: TableEntityResult<ObjectEntity>[] = [];
+
+        try {
+            for await (const entity of this.tableClient.listEntities<ObjectEntity>({ queryOptions: { filter: filter } })) {
+                entities.push(entity);
+            }
+        }
+        catch (error) {
+            throw new Error(`Unable to list objects in ${path}. ${error.stack || error.message}`);
+        }
+
+        return entities;
+    }
+
+    private async readObject<T>(entity: TableEntityResult<ObjectEntity>): Promise<T> {
+        let serializedObject = "";
+
+        if (entity.blobKey) {
+            if (!this.blobStorage) {
+                throw new Error(`Unable to read object ${entity.key}: it is stored in blob ${entity.blobKey} and no blob storage configured.`);
+            }
+
+            serializedObject = new TextDecoder().decode(await this.blobStorage.downloadBlob(entity.blobKey));
+        }
+        else {
+            for (let index = 0; index < entity.dataProperties; index += 1) {
+                serializedObject += entity[`data${index}`];
+            }
+        }
+
+        return JSON.parse(serializedObject);
+    }
+
+    /**
+     * Returns partition key and row key of entity at specified path. Partition key is the root collection and row key
+     * is the rest of the path, so that objects under a path are queried by row key range. Keys can't contain slashes,
+     * so segments are URI-encoded and joined with "|", e.g. "locales/en-us/pages/home" maps to "locales" and "en-us|pages|home".
+     * @param path {string} Normalized path of the object.
+     */
+    private getEntityKeys(path: string): [string, string] {
+        const [collectionKey, ...segments] = path.split("/");
+        return [encodeURIComponent(collectionKey), segments.map(segment => encodeURIComponent(segment)).join(rowKeySeparator)];
+    }
+
+    /**
+     * Returns path relative to ancestor path, e.g. "home/title" for "pages/home/title" under "pages".
+     */
+    private getRelativePath(ancestorPath: string, path: string): string {
+        return path.substring(ancestorPath.length + 1);
+    }
+
+    private normalizePath(key: string): string {
+        if (!key) {
+            throw new Error(`Parameter "key" not specified.`);
+        }
+
+        return key.split("/").filter(segment => !!segment).join("/");
+    }
+}
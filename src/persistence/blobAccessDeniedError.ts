@@ -0,0 +1,16 @@
+import { BlobStorageError } from "./blobStorageError";
+
+/**
+ * Error thrown when credentials don't permit the operation, e.g. SAS is expired or lacks permissions (HTTP 403).
+ */
+export class BlobAccessDeniedError extends BlobStorageError {
+    /**
+     * Creates access denied error.
+     * @param blobKey {string} Key of the blob.
+     * @param code {string} Error code returned by storage service, e.g. `AuthorizationPermissionMismatch`.
+     */
+    constructor(blobKey: string, code: string) {
+        super(blobKey, 403, `Access to blob ${blobKey} denied. ${code}`, code);
+        this.name = "BlobAccessDeniedError";
+    }
+}
@@ -0,0 +1,21 @@
+/**
+ * Settings of pre-compression of text assets on upload ("blobStorageCompression" setting). Compressed blobs are stored
+ * with `Content-Encoding` header, so that they are served compressed. Storage client decodes them on download,
+ * except `downloadBlobStream`, which streams content as stored, to be served over HTTP.
+ */
+export interface BlobCompressionSettings {
+    /**
+     * Compression algorithm, "gzip" by default.
+     */
+    encoding?: "gzip" | "br";
+
+    /**
+     * Compressed content types, wildcards like `text/*` are supported. Defaults to text, JSON, JavaScript, XML and SVG.
+     */
+    contentTypes?: string[];
+
+    /**
+     * Minimal size in bytes of compressed content, 1024 by default. Smaller content doesn't benefit from compression.
+     */
+    minSize?: number;
+}
@@ -0,0 +1,40 @@
+import { BlobConflictError } from "./blobConflictError";
+
+/**
+ * Optimistic concurrency conditions for blob operations.
+ */
+export interface BlobConditions {
+    /**
+     * Operation succeeds only if current ETag of the blob matches this value ("*" matches any existing blob).
+     */
+    ifMatch?: string;
+
+    /**
+     * Operation succeeds only if current ETag of the blob doesn't match this value ("*" requires blob not to exist).
+     */
+    ifNoneMatch?: string;
+}
+
+/**
+ * Checks conditions against current state of a blob the same way Azure storage service does.
+ * @param blobKey {string} Blob key.
+ * @param currentETag {string} ETag of existing blob, or null if the blob doesn't exist.
+ * @param conditions {BlobConditions} Conditions to check.
+ */
+export function assertBlobConditions(blobKey: string, currentETag: string, conditions?: BlobConditions): void {
+    if (!conditions) {
+        return;
+    }
+
+    if (conditions.ifMatch && (!currentETag || (conditions.ifMatch !== "*" && conditions.ifMatch !== currentETag))) {
+        throw new BlobConflictError(blobKey, 412, `Unable to modify blob ${blobKey}. The condition specified using HTTP conditional header(s) is not met.`);
+    }
+
+    if (conditions.ifNoneMatch === "*" && currentETag) {
+        throw new BlobConflictError(blobKey, 409, `Unable to modify blob ${blobKey}. The specified blob already exists.`);
+    }
+
+    if (conditions.ifNoneMatch && conditions.ifNoneMatch !== "*" && conditions.ifNoneMatch === currentETag) {
+        throw new BlobConflictError(blobKey, 412, `Unable to modify blob ${blobKey}. The condition specified using HTTP conditional header(s) is not met.`);
+    }
+}
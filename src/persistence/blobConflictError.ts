@@ -0,0 +1,36 @@
+import { BlobStorageError } from "./blobStorageError";
+
+/**
+ * Error thrown when a blob was modified concurrently (HTTP 412) or conflicts with existing one (HTTP 409).
+ */
+export class BlobConflictError extends BlobStorageError {
+    /**
+     * Creates blob conflict error.
+     * @param blobKey {string} Key of the conflicting blob.
+     * @param statusCode {number} HTTP status code, 409 or 412.
+     * @param message {string} Error message.
+     * @param code {string} Error code returned by storage service, e.g. `ConditionNotMet`.
+     */
+    constructor(blobKey: string, statusCode: number, message: string, code?: string) {
+        super(blobKey, statusCode, message, code);
+        this.name = "BlobConflictError";
+    }
+
+    /**
+     * Checks if the error returned by storage service is a conflict.
+     * @param error Error returned by storage service.
+     */
+    public static isConflict(error: any): boolean {
+        return error?.statusCode === 409 || error?.statusCode === 412;
+    }
+
+    /**
+     * Wraps the error returned by storage service.
+     * @param blobKey {string} Key of the conflicting blob.
+     * @param error Error returned by storage service.
+     */
+    public static fromError(blobKey: string, error: any): BlobConflictError {
+        const reason = error.code || error.message;
+        return new BlobConflictError(blobKey, error.statusCode, `Unable to modify blob ${blobKey}. ${reason}`, error.code);
+    }
+}
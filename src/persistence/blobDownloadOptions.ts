@@ -0,0 +1,24 @@
+/**
+ * Range and conditions of a streaming blob download.
+ */
+export interface BlobDownloadOptions {
+    /**
+     * Position of the first downloaded byte, 0 by default.
+     */
+    offset?: number;
+
+    /**
+     * Number of downloaded bytes, until the end of the blob by default.
+     */
+    count?: number;
+
+    /**
+     * Skips download if the blob still has this ETag, e.g. value of `If-None-Match` request header.
+     */
+    ifNoneMatch?: string;
+
+    /**
+     * Skips download if the blob wasn't modified since this time, e.g. value of `If-Modified-Since` request header.
+     */
+    ifModifiedSince?: Date;
+}
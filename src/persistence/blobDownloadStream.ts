@@ -0,0 +1,45 @@
+/**
+ * Streaming download of a blob, with response details needed to serve it over HTTP.
+ */
+export interface BlobDownloadStream<TStream> {
+    /**
+     * HTTP status code: 200 for entire blob, 206 for a range, 304 if download was skipped by conditions.
+     */
+    statusCode: number;
+
+    /**
+     * Content stream, or null if the blob wasn't modified.
+     */
+    stream: TStream;
+
+    /**
+     * ETag of the blob.
+     */
+    etag: string;
+
+    /**
+     * Last modification time of the blob.
+     */
+    lastModified: Date;
+
+    /**
+     * Content type of the blob, e.g. `video/mp4`.
+     */
+    contentType: string;
+
+    /**
+     * Number of bytes in the stream.
+     */
+    contentLength: number;
+
+    /**
+     * Range of the stream, e.g. `bytes 0-1023/4096`, or null if entire blob is streamed.
+     */
+    contentRange: string;
+
+    /**
+     * Value of `Content-Encoding` header of the blob, e.g. `gzip`, if the stream carries content as stored,
+     * i.e. compressed. Null if the stream isn't encoded.
+     */
+    contentEncoding: string;
+}
@@ -0,0 +1,18 @@
+import { BlobStorageError } from "./blobStorageError";
+
+/**
+ * Error thrown when customer-provided encryption key of a blob is missing or doesn't match the key the blob
+ * was encrypted with, instead of generic HTTP 409 returned by the service.
+ */
+export class BlobEncryptionKeyError extends BlobStorageError {
+    /**
+     * Creates encryption key error.
+     * @param blobKey {string} Key of the blob.
+     * @param code {string} Error code returned by storage service, e.g. `BlobUsesCustomerSpecifiedEncryption`.
+     * @param statusCode {number} HTTP status code, null if the key was refused before sending a request.
+     */
+    constructor(blobKey: string, code: string, statusCode: number = null) {
+        super(blobKey, statusCode, `Customer-provided encryption key of blob ${blobKey} is missing or doesn't match, check "blobStorageEncryptionKeyProvider" setting. ${code}`, code);
+        this.name = "BlobEncryptionKeyError";
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * Provides customer-provided encryption key ("blobStorageEncryptionKeyProvider" setting), i.e. Base64-encoded
+ * AES-256 key, used to encrypt a blob on upload and required to read it. Keys may differ per blob, e.g. per tenant.
+ * @param fullBlobKey {string} Full blob key (including base path).
+ */
+export type BlobEncryptionKeyProvider = (fullBlobKey: string) => Promise<string> | string;
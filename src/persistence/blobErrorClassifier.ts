@@ -0,0 +1,53 @@
+import { BlobAccessDeniedError } from "./blobAccessDeniedError";
+import { BlobConflictError } from "./blobConflictError";
+import { BlobEncryptionKeyError } from "./blobEncryptionKeyError";
+import { BlobNotFoundError } from "./blobNotFoundError";
+import { BlobStorageError } from "./blobStorageError";
+import { BlobThrottledError } from "./blobThrottledError";
+
+/**
+ * Error codes returned by storage service when customer-provided key is missing or doesn't match.
+ */
+const encryptionKeyErrorCodes = [
+    "BlobUsesCustomerSpecifiedEncryption",
+    "BlobDoesNotUseCustomerSpecifiedEncryption",
+    "BlobCustomerSpecifiedEncryptionMismatch"
+];
+
+/**
+ * Converts error returned by storage service into typed blob error: `BlobNotFoundError` (404), `BlobAccessDeniedError` (403),
+ * `BlobEncryptionKeyError` (409 caused by customer-provided key), `BlobConflictError` (409, 412) or `BlobThrottledError` (429, 503). Other errors get wrapped with failure message.
+ * @param blobKey {string} Key of the blob.
+ * @param error Error returned by storage service.
+ * @param failureMessage {string} Message of wrapping error, e.g. "Unable to upload blob page.html.".
+ */
+export function classifyBlobError(blobKey: string, error: any, failureMessage: string): Error {
+    if (error instanceof BlobStorageError) {
+        return error;
+    }
+
+    const statusCode = error?.statusCode;
+    const code = error?.code || error?.message;
+
+    if (statusCode === 404) {
+        return new BlobNotFoundError(blobKey, code);
+    }
+
+    if (statusCode === 403) {
+        return new BlobAccessDeniedError(blobKey, code);
+    }
+
+    if (encryptionKeyErrorCodes.includes(error?.code)) {
+        return new BlobEncryptionKeyError(blobKey, error.code, statusCode);
+    }
+
+    if (BlobConflictError.isConflict(error)) {
+        return BlobConflictError.fromError(blobKey, error);
+    }
+
+    if (statusCode === 429 || statusCode === 503 || error?.code === "ServerBusy") {
+        return new BlobThrottledError(blobKey, statusCode, code);
+    }
+
+    return new Error(`${failureMessage} ${error?.stack || error?.message}`);
+}
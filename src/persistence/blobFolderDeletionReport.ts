@@ -0,0 +1,29 @@
+/**
+ * Blob which couldn't be deleted.
+ */
+export interface BlobDeletionFailure {
+    /**
+     * Full blob key.
+     */
+    key: string;
+
+    /**
+     * Reason of the failure, e.g. error code returned by storage service.
+     */
+    error: string;
+}
+
+/**
+ * Outcome of blob folder deletion.
+ */
+export interface BlobFolderDeletionReport {
+    /**
+     * Full keys of deleted blobs.
+     */
+    deleted: string[];
+
+    /**
+     * Blobs which couldn't be deleted.
+     */
+    failed: BlobDeletionFailure[];
+}
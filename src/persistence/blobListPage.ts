@@ -0,0 +1,74 @@
+/**
+ * Options of paged blob listing.
+ */
+export interface BlobListOptions {
+    /**
+     * Maximum number of entries (blobs and folders) in the page. Default: 1000.
+     */
+    pageSize?: number;
+
+    /**
+     * Token returned with previous page.
+     */
+    continuationToken?: string;
+
+    /**
+     * Indicates if blobs should be listed folder by folder, i.e. using "/" as delimiter. In this mode
+     * blob prefix is treated as a folder.
+     */
+    hierarchical?: boolean;
+}
+
+/**
+ * Page of blob listing.
+ */
+export interface BlobListPage {
+    /**
+     * Full keys of the blobs on the page.
+     */
+    blobs: string[];
+
+    /**
+     * Full keys of the virtual folders on the page, ending with "/" (hierarchical listing only).
+     */
+    folders: string[];
+
+    /**
+     * Token for retrieving next page, or null if this is the last page.
+     */
+    continuationToken: string;
+}
+
+export const defaultBlobListPageSize = 1000;
+
+/**
+ * Splits sorted blob keys into pages the same way Azure storage service does.
+ * @param keys {string[]} Sorted full keys of the blobs matching the prefix.
+ * @param prefix {string} Full prefix (ending with "/" in hierarchical mode).
+ * @param options {BlobListOptions} Listing options.
+ */
+export function paginateBlobKeys(keys: string[], prefix: string, options?: BlobListOptions): BlobListPage {
+    const pageSize = options?.pageSize || defaultBlobListPageSize;
+    let entries = keys;
+
+    if (options?.hierarchical) {
+        entries = keys.map(key => {
+            const delimiterIndex = key.indexOf("/", prefix.length);
+            return delimiterIndex >= 0 ? key.substring(0, delimiterIndex + 1) : key;
+        });
+
+        entries = Array.from(new Set(entries)).sort();
+    }
+
+    if (options?.continuationToken) {
+        entries = entries.filter(entry => entry > options.continuationToken);
+    }
+
+    const pageEntries = entries.slice(0, pageSize);
+
+    return {
+        blobs: pageEntries.filter(entry => !entry.endsWith("/")),
+        folders: pageEntries.filter(entry => entry.endsWith("/")),
+        continuationToken: entries.length > pageSize ? pageEntries[pageEntries.length - 1] : null
+    };
+}
@@ -0,0 +1,29 @@
+/**
+ * Lock held with a lease on the lock blob, returned by `acquireLock`.
+ */
+export interface BlobLock {
+    /**
+     * Name of the lock, e.g. "publishing".
+     */
+    name: string;
+
+    /**
+     * Identifier of the lease on the lock blob.
+     */
+    leaseId: string;
+
+    /**
+     * Description of the lock holder, e.g. "host:pid".
+     */
+    holder: string;
+
+    /**
+     * Date when the lock was acquired.
+     */
+    acquiredOn: Date;
+
+    /**
+     * Lease duration in seconds (between 15 and 60), -1 for lock held until released.
+     */
+    durationInSeconds: number;
+}
@@ -0,0 +1,23 @@
+import { BlobStorageError } from "./blobStorageError";
+
+/**
+ * Error thrown when a lock is held by someone else.
+ */
+export class BlobLockedError extends BlobStorageError {
+    /**
+     * Creates lock error.
+     * @param lockName {string} Name of the lock.
+     * @param blobKey {string} Key of the lock blob.
+     * @param holder {string} Description of the lock holder, null if unknown.
+     * @param acquiredOn {Date} Date when the holder acquired the lock, null if unknown.
+     */
+    constructor(
+        public readonly lockName: string,
+        blobKey: string,
+        public readonly holder: string,
+        public readonly acquiredOn: Date
+    ) {
+        super(blobKey, 409, `Lock ${lockName} is held by ${holder || "unknown holder"}${acquiredOn ? ` since ${acquiredOn.toISOString()}` : ""}.`, "LeaseAlreadyPresent");
+        this.name = "BlobLockedError";
+    }
+}
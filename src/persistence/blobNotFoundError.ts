@@ -0,0 +1,16 @@
+import { BlobStorageError } from "./blobStorageError";
+
+/**
+ * Error thrown when a blob (or its container) doesn't exist (HTTP 404).
+ */
+export class BlobNotFoundError extends BlobStorageError {
+    /**
+     * Creates blob not found error.
+     * @param blobKey {string} Key of the missing blob.
+     * @param code {string} Error code returned by storage service, e.g. `ContainerNotFound`.
+     */
+    constructor(blobKey: string, code: string = "BlobNotFound") {
+        super(blobKey, 404, `Blob ${blobKey} not found. ${code}`, code);
+        this.name = "BlobNotFoundError";
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Details of a storage operation collected while it runs and reported to logger as dependency.
+ */
+export interface BlobOperationTelemetry {
+    /**
+     * Number of uploaded or downloaded bytes.
+     */
+    size?: number;
+
+    /**
+     * Number of listed or deleted blobs.
+     */
+    blobCount?: number;
+
+    /**
+     * HTTP status code of the last response.
+     */
+    statusCode?: number;
+
+    /**
+     * Number of requests retried by storage client. Counted in Node.JS only, as retries happen
+     * inside of storage client pipeline.
+     */
+    retryCount?: number;
+}
@@ -0,0 +1,41 @@
+import { Bag } from "@paperbits/common";
+
+/**
+ * System properties and user metadata of a blob.
+ */
+export interface BlobProperties {
+    /**
+     * Full blob key (including base path).
+     */
+    key: string;
+
+    /**
+     * Size of the blob in bytes.
+     */
+    size: number;
+
+    /**
+     * Content type (MIME) of the blob, e.g. `image/png`.
+     */
+    contentType: string;
+
+    /**
+     * Date and time of the last modification.
+     */
+    lastModified: Date;
+
+    /**
+     * ETag of the current blob version.
+     */
+    etag: string;
+
+    /**
+     * Base64-encoded MD5 hash of the blob content, if known by storage.
+     */
+    contentMD5: string;
+
+    /**
+     * User-defined metadata.
+     */
+    metadata: Bag<string>;
+}
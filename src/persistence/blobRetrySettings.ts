@@ -0,0 +1,25 @@
+/**
+ * Retry policy of storage operations ("blobStorageRetry" setting). Requests failed with HTTP 500, 503
+ * or network errors get retried.
+ */
+export interface BlobRetrySettings {
+    /**
+     * Maximum number of tries of a request, 4 by default. Value 1 disables retries.
+     */
+    maxTries?: number;
+
+    /**
+     * Delay before retry in milliseconds, 4 seconds by default. With exponential backoff it's the base of the delay.
+     */
+    retryDelayInMs?: number;
+
+    /**
+     * Maximum delay before retry in milliseconds, 2 minutes by default.
+     */
+    maxRetryDelayInMs?: number;
+
+    /**
+     * Backoff strategy, "exponential" by default.
+     */
+    backoff?: "exponential" | "fixed";
+}
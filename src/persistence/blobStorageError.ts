@@ -0,0 +1,21 @@
+/**
+ * Error returned by storage service for a blob operation, base class of typed blob errors.
+ */
+export class BlobStorageError extends Error {
+    /**
+     * Creates blob storage error.
+     * @param blobKey {string} Key of the blob.
+     * @param statusCode {number} HTTP status code.
+     * @param message {string} Error message.
+     * @param code {string} Error code returned by storage service, e.g. `BlobNotFound`.
+     */
+    constructor(
+        public readonly blobKey: string,
+        public readonly statusCode: number,
+        message: string,
+        public readonly code?: string
+    ) {
+        super(message);
+        this.name = "BlobStorageError";
+    }
+}
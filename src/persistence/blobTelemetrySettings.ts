@@ -0,0 +1,16 @@
+/**
+ * Dependency telemetry of storage operations ("blobStorageTelemetry" setting). Operations get reported
+ * to logger with duration, status code, size and retry count.
+ */
+export interface BlobTelemetrySettings {
+    /**
+     * Indicates if storage operations get reported, `true` by default.
+     */
+    enabled?: boolean;
+
+    /**
+     * Replaces blob keys with their SHA-256 hash, so that telemetry doesn't reveal names of the files
+     * while operations on the same blob can still be correlated.
+     */
+    redactKeys?: boolean;
+}
@@ -0,0 +1,18 @@
+import { BlobStorageError } from "./blobStorageError";
+
+/**
+ * Error thrown when storage service kept rejecting requests as busy (HTTP 429, 503 or `ServerBusy` code)
+ * after all the retries configured with "blobStorageRetry" setting.
+ */
+export class BlobThrottledError extends BlobStorageError {
+    /**
+     * Creates throttling error.
+     * @param blobKey {string} Key of the blob.
+     * @param statusCode {number} HTTP status code.
+     * @param code {string} Error code returned by storage service, e.g. `ServerBusy`.
+     */
+    constructor(blobKey: string, statusCode: number, code: string) {
+        super(blobKey, statusCode, `Storage service is busy, operation on blob ${blobKey} failed. ${code}`, code);
+        this.name = "BlobThrottledError";
+    }
+}
@@ -0,0 +1,37 @@
+import { Bag } from "@paperbits/common";
+import { BlobConditions } from "./blobConditions";
+
+/**
+ * HTTP headers, metadata and conditions of uploaded blob.
+ */
+export interface BlobUploadOptions extends BlobConditions {
+    /**
+     * Value of `Cache-Control` header, e.g. `public, max-age=31536000, immutable`. Overrides rules of "blobStorageCacheControl" setting.
+     */
+    cacheControl?: string;
+
+    /**
+     * Value of `Content-Encoding` header of already encoded content, e.g. `gzip`. Such content doesn't get compressed again.
+     */
+    contentEncoding?: string;
+
+    /**
+     * Value of `Content-Disposition` header, e.g. `attachment; filename="report.pdf"`.
+     */
+    contentDisposition?: string;
+
+    /**
+     * Value of `Content-Language` header, e.g. `en-US`.
+     */
+    contentLanguage?: string;
+
+    /**
+     * User metadata, e.g. `{ author: "john" }`.
+     */
+    metadata?: Bag<string>;
+
+    /**
+     * Enables or disables compression of this upload regardless of "blobStorageCompression" setting.
+     */
+    compress?: boolean;
+}
@@ -0,0 +1,65 @@
+/**
+ * Reference to a previous state of a blob, either a snapshot or a version (when blob versioning is enabled on storage account).
+ */
+export interface BlobVersionReference {
+    /**
+     * Snapshot timestamp, e.g. "2024-03-01T10:00:00.1234567Z".
+     */
+    snapshot?: string;
+
+    /**
+     * Version identifier, e.g. "2024-03-01T10:00:00.1234567Z".
+     */
+    versionId?: string;
+}
+
+/**
+ * Current state, snapshot or version of a blob.
+ */
+export interface BlobVersion extends BlobVersionReference {
+    /**
+     * Full blob key (including base path).
+     */
+    key: string;
+
+    /**
+     * Content length in bytes.
+     */
+    size: number;
+
+    /**
+     * Date of last modification of the content.
+     */
+    lastModified: Date;
+
+    /**
+     * ETag of the content.
+     */
+    etag: string;
+
+    /**
+     * Indicates the current state of the blob.
+     */
+    isCurrent: boolean;
+
+    /**
+     * Indicates soft-deleted blob (or its snapshot), which can be restored with `undeleteBlob`.
+     */
+    isDeleted: boolean;
+}
+
+/**
+ * Sorts blob versions: the current state first, then snapshots and versions from the newest one.
+ * @param versions {BlobVersion[]} Blob versions.
+ */
+export function sortBlobVersions(versions: BlobVersion[]): BlobVersion[] {
+    const getTimestamp = (version: BlobVersion) => version.snapshot || version.versionId || "";
+
+    return versions.sort((a, b) => {
+        if (a.isCurrent !== b.isCurrent) {
+            return a.isCurrent ? -1 : 1;
+        }
+
+        return getTimestamp(b).localeCompare(getTimestamp(a));
+    });
+}
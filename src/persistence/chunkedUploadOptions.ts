@@ -0,0 +1,50 @@
+/**
+ * Progress of chunked upload.
+ */
+export interface UploadProgress {
+    /**
+     * Number of bytes already in storage, including blocks reused from previous attempt.
+     */
+    loadedBytes: number;
+
+    /**
+     * Total size of uploaded content in bytes.
+     */
+    totalBytes: number;
+}
+
+/**
+ * Options of chunked upload of `Blob` or `File` objects.
+ */
+export interface ChunkedUploadOptions {
+    /**
+     * Content type, e.g. `video/mp4`. Defaults to type of the file, or gets inferred from blob key.
+     */
+    contentType?: string;
+
+    /**
+     * Size of staged blocks in bytes, 4MB by default.
+     */
+    blockSize?: number;
+
+    /**
+     * Number of blocks staged in parallel, 4 by default.
+     */
+    concurrency?: number;
+
+    /**
+     * Reuses blocks staged, but not committed, by previous attempt to upload the same content, `true` by default.
+     * Blocks are matched by hash of their content.
+     */
+    resume?: boolean;
+
+    /**
+     * Signal to cancel the upload. Blocks staged before cancellation can be reused when resuming.
+     */
+    abortSignal?: AbortSignal;
+
+    /**
+     * Callback invoked as blocks get uploaded.
+     */
+    onProgress?: (progress: UploadProgress) => void;
+}
@@ -0,0 +1,14 @@
+/**
+ * Downloaded content of a blob along with its ETag.
+ */
+export interface DownloadedBlob {
+    /**
+     * Content of the blob.
+     */
+    content: Uint8Array;
+
+    /**
+     * ETag of the downloaded blob version, can be used in `ifMatch` condition of subsequent upload.
+     */
+    etag: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Blob content prepared for upload.
+ */
+export interface EncodedContent {
+    /**
+     * Content, possibly compressed.
+     */
+    content: Uint8Array;
+
+    /**
+     * Value of `Content-Encoding` header, e.g. `gzip`, or undefined if content isn't encoded.
+     */
+    contentEncoding: string;
+}
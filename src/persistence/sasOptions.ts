@@ -0,0 +1,60 @@
+/**
+ * Options of shared access signature (SAS) appended to generated blob and container URLs.
+ */
+export interface SasOptions {
+    /**
+     * Validity period of the SAS in minutes.
+     */
+    expiresInMinutes?: number;
+
+    /**
+     * Granted permissions, e.g. "r" for read, "cw" for create and write, "rl" for read and list (container only).
+     */
+    permissions?: string;
+
+    /**
+     * Allowed client IP address or range, e.g. "203.0.113.5" or "203.0.113.0-203.0.113.255".
+     */
+    ipRange?: string;
+
+    /**
+     * Allowed protocols, "https" or "https,http".
+     */
+    protocol?: "https" | "https,http";
+
+    /**
+     * Identifier of a stored access policy defined on the container. When specified, permissions and expiry
+     * are taken from the policy, unless explicitly set in these options.
+     */
+    identifier?: string;
+
+    /**
+     * Overrides Content-Disposition header of download response, e.g. `attachment; filename="report.pdf"`.
+     */
+    contentDisposition?: string;
+
+    /**
+     * Overrides Content-Type header of download response.
+     */
+    contentType?: string;
+}
+
+/**
+ * Default SAS options per kind of generated URL, e.g. `{ download: { expiresInMinutes: 60 } }`.
+ */
+export interface SasSettings {
+    /**
+     * Options of URLs returned by `getDownloadUrl`.
+     */
+    download?: SasOptions;
+
+    /**
+     * Options of URLs returned by `getUploadUrl`.
+     */
+    upload?: SasOptions;
+
+    /**
+     * Options of URLs returned by `getContainerUrl`.
+     */
+    container?: SasOptions;
+}
@@ -0,0 +1,39 @@
+/**
+ * Options of incremental deployment of a local folder, e.g. published website, into blob storage.
+ */
+export interface StaticSiteDeploymentOptions {
+    /**
+     * Blob folder receiving the files, root of the container (under base path) by default.
+     */
+    targetFolder?: string;
+
+    /**
+     * Deletes blobs of the target folder which don't have corresponding local files.
+     */
+    deleteOrphans?: boolean;
+
+    /**
+     * Only logs and returns the deployment plan without changing storage.
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * Full keys of blobs affected by deployment (or planned to be affected in dry run).
+ */
+export interface StaticSiteDeploymentSummary {
+    /**
+     * Blobs uploaded because they were new or changed.
+     */
+    uploaded: string[];
+
+    /**
+     * Blobs skipped because their content didn't change.
+     */
+    skipped: string[];
+
+    /**
+     * Orphaned blobs deleted.
+     */
+    deleted: string[];
+}
@@ -0,0 +1,19 @@
+/**
+ * Static website hosting settings of storage account ("blobStorageStaticWebsite" setting).
+ */
+export interface StaticWebsiteSettings {
+    /**
+     * Enables static website hosting, `true` by default.
+     */
+    enabled?: boolean;
+
+    /**
+     * Document served for requests to folders, "index.html" by default.
+     */
+    indexDocument?: string;
+
+    /**
+     * Path of document served when requested file is not found, "404.html" by default.
+     */
+    errorDocument404Path?: string;
+}
@@ -0,0 +1,8 @@
+/**
+ * Kind of Azure AD credential created for "blobStorageAccountUrl" setting:
+ * - "clientSecret" - service principal defined by "blobStorageTenantId", "blobStorageClientId" and "blobStorageClientSecret" settings;
+ * - "workloadIdentity" - Kubernetes workload identity, settings default to AZURE_TENANT_ID, AZURE_CLIENT_ID and AZURE_FEDERATED_TOKEN_FILE environment variables;
+ * - "managedIdentity" - system-assigned managed identity, or user-assigned one identified by "blobStorageClientId" setting;
+ * - "default" - chain of environment, workload identity, managed identity and developer tool credentials.
+ */
+export type TokenCredentialType = "clientSecret" | "workloadIdentity" | "managedIdentity" | "default";
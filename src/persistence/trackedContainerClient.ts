@@ -0,0 +1,19 @@
+import { PipelinePolicy } from "@azure/core-rest-pipeline";
+import { ContainerClient, Pipeline } from "@azure/storage-blob";
+
+/**
+ * Container client, which adds telemetry policy to the HTTP pipeline. All the clients created with the same
+ * Pipeline object share the HTTP pipeline, so the policy applies to them as well.
+ */
+export class TrackedContainerClient extends ContainerClient {
+    /**
+     * Creates container client.
+     * @param containerUrl {string} URL of the container, optionally with SAS.
+     * @param pipeline {Pipeline} Pipeline created with newPipeline(...).
+     * @param telemetryPolicy {PipelinePolicy} Policy, which sees every try of a request.
+     */
+    constructor(containerUrl: string, pipeline: Pipeline, telemetryPolicy: PipelinePolicy) {
+        super(containerUrl, pipeline);
+        this.storageClientContext.pipeline.addPolicy(telemetryPolicy, { afterPhase: "Sign" });
+    }
+}
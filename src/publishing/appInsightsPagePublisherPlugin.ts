@@ -10,28 +10,48 @@
 import { HtmlPagePublisherPlugin } from "@paperbits/common/publishing";
 import { ISiteService } from "@paperbits/common/sites";
 import { AppInsightsSettings } from "../publishing/appInsightsSettings";
-
-const sdkUrlSource = "https://az416426.vo.msecnd.net/scripts/b/ai.2.min.js";
+import { createBootstrapperScript, getScriptHash } from "./appInsightsBootstrapper";
 
 export class AppInsightsHtmlPagePublisherPlugin implements HtmlPagePublisherPlugin {
+    private scriptHash: { script: string, hash: Promise<string> };
+
     constructor(private readonly siteService: ISiteService) { }
 
     public async apply(document: Document): Promise<void> {
         const settings = await this.siteService.getSettings<any>();
         const appInsightsSettings: AppInsightsSettings = settings?.integration?.appInsights;
 
-        if (!appInsightsSettings?.instrumentationKey) {
+        if (!appInsightsSettings?.connectionString && !appInsightsSettings?.instrumentationKey) {
             return;
         }
 
-        const instrumentationKey = appInsightsSettings.instrumentationKey;
+        const script = createBootstrapperScript(appInsightsSettings);
+        const bootstrapperScriptElement = document.createElement("script");
 
-        const script = `!function (T, l, y) { var S = T.location, u = "script", k = "instrumentationKey", D = "ingestionendpoint", C = "disableExceptionTracking",E = "ai.device.", I = "toLowerCase", b = "crossOrigin", w = "POST", e = "appInsightsSDK", t = y.name || "appInsights"; (y.name || T[e]) && (T[e] = t); var n = T[t] || function (d) { var g = !1, f = !1, m = { initialize: !0, queue: [], sv: "4", version: 2, config: d }; function v(e, t) { var n = {}, a = "Browser"; return n[E + "id"] = a[I](), n[E + "type"] = a, n["ai.operation.name"] = S && S.pathname || "_unknown_", n["ai.internal.sdkVersion"] = "javascript:snippet_" + (m.sv || m.version), { time: function () { var e = new Date; function t(e) { var t = "" + e; return 1 === t.length && (t = "0" + t), t } return e.getUTCFullYear() + "-" + t(1 + e.getUTCMonth()) + "-" + t(e.getUTCDate()) + "T" + t(e.getUTCHours()) + ":" + t(e.getUTCMinutes()) + ":" + t(e.getUTCSeconds()) + "." + ((e.getUTCMilliseconds() / 1e3).toFixed(3) + "").slice(2, 5) + "Z" }(), iKey: e, name: "Microsoft.ApplicationInsights." + e.replace(/-/g, "") + "." + t, sampleRate: 100, tags: n, data: { baseData: { ver: 2 } } } } var h = d.url || y.src; if (h) { function a(e) { var t, n, a, i, r, o, s, c, p, l, u; g = !0, m.queue = [], f || (f = !0, t = h, s = function () { var e = {}, t = d.connectionString; if (t) for (var n = t.split(";"), a = 0; a < n.length; a++) { var i = n[a].split("="); 2 === i.length && (e[i[0][I]()] = i[1]) } 
-        if (!e[D]) { var r = e.endpointsuffix, o = r ? e.location : null; e[D] = "https://" + (o ? o + "." : "") + "dc." + (r || "services.visualstudio.com") } return e }(), c = s[k] || d[k] || "", p = s[D], l = p ? p + "/v2/track" : config.endpointUrl, (u = []).push((n = "SDK LOAD Failure: Failed to load Application Insights SDK script (See stack for details)", a = t, i = l, (o = (r = v(c, "Exception")).data).baseType = "ExceptionData", o.baseData.exceptions = [{ typeName: "SDKLoadFailed", message: n.replace(/\./g, "-"), hasFullStack: !1, stack: n + "\\nSnippet failed to load [" + a + "] -- Telemetry is disabled\\nHelp Link: https://go.microsoft.com/fwlink/?linkid=2128109\\nHost: " + (S && S.pathname || "_unknown_") + "\\nEndpoint: " + i, parsedStack: [] }], r)), u.push(function (e, t, n, a) { var i = v(c, "Message"), r = i.data; r.baseType = "MessageData"; var o = r.baseData; return o.message = 'AI (Internal): 99 message:"' + ("SDK LOAD Failure: Failed to load Application Insights SDK script (See stack for details) (" + n + ")").replace(/\"/g, "") + '"', o.properties = { endpoint: a }, i }(0, 0, t, l)), function (e, t) { if (JSON) { var n = T.fetch; if (n && !y.useXhr) n(t, { method: w, body: JSON.stringify(e), mode: "cors" }); else if (XMLHttpRequest) { var a = new XMLHttpRequest; a.open(w, t), a.setRequestHeader("Content-type", "application/json"), a.send(JSON.stringify(e)) } } }(u, l)) } function i(e, t) { f || setTimeout(function () { !t && m.core || a() }, 500) } var e = function () { var n = l.createElement(u); n.src = h; var e = y[b]; return !e && "" !== e || "undefined" == n[b] || (n[b] = e), n.onload = i, n.onerror = a, n.onreadystatechange = function (e, t) { "loaded" !== n.readyState && "complete" !== n.readyState || i(0, t) }, n }(); y.ld < 0 ? l.getElementsByTagName("head")[0].appendChild(e) : setTimeout(function () { l.getElementsByTagName(u)[0].parentNode.appendChild(e) }, y.ld || 0) } try { m.cookie = l.cookie } catch (p) { } function t(e) { for (; e.length;)!function (t) { m[t] = function () { var e = arguments; g || m.queue.push(function () { m[t].apply(m, e) }) } }(e.pop()) } var n = "track", r = "TrackPage", o = "TrackEvent"; t([n + "Event", n + "PageView", n + "Exception", n + "Trace", n + "DependencyData", n + "Metric", n + "PageViewPerformance", "start" + r, "stop" + r, "start" + o, "stop" + o, "addTelemetryInitializer", "setAuthenticatedUserContext", "clearAuthenticatedUserContext", "flush"]), m.SeverityLevel = { Verbose: 0, Information: 1, Warning: 2, Error: 3, Critical: 4 }; var s = (d.extensionConfig || {}).ApplicationInsightsAnalytics || {}; if (!0 !== d[C] && !0 !== s[C]) { method = "onerror", t(["_" + method]); var c = T[method]; T[method] = function (e, t, n, a, i) { var r = c && c(e, t, n, a, i); return !0 !== r && m["_" + method]({ message: e, url: t, lineNumber: n, columnNumber: a, error: i }), r }, d.autoExceptionInstrumented = !0 } return m }(y.cfg); (T[t] = n).queue && 0 === n.queue.length && n.trackPageView({}) }(window, document,
-        { src: "${sdkUrlSource}", cfg: { instrumentationKey: "${instrumentationKey}" }});`;
+        if (appInsightsSettings.scriptNonce) {
+            bootstrapperScriptElement.setAttribute("nonce", appInsightsSettings.scriptNonce);
+        }
+
+        if (appInsightsSettings.scriptPermalink) {
+            bootstrapperScriptElement.setAttribute("src", appInsightsSettings.scriptPermalink);
+            bootstrapperScriptElement.setAttribute("integrity", await this.getScriptHash(script));
+        }
+        else {
+            bootstrapperScriptElement.textContent = script;
+        }
 
-        const bootstrapperScriptElement = document.createElement("script");
-        bootstrapperScriptElement.innerHTML = script;
         document.head.appendChild(bootstrapperScriptElement);
     }
+
+    /**
+     * Returns integrity hash of the script, computed once while the script (i.e. settings) stays the same.
+     * @param script {string} Content of the script.
+     */
+    private getScriptHash(script: string): Promise<string> {
+        if (this.scriptHash?.script !== script) {
+            this.scriptHash = { script: script, hash: getScriptHash(script) };
+        }
+
+        return this.scriptHash.hash;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+import { IBlobStorage } from "@paperbits/common/persistence";
+import { Logger } from "@paperbits/common/logging";
+import { IPublisher } from "@paperbits/common/publishing";
+import { ISiteService } from "@paperbits/common/sites";
+import { AppInsightsSettings } from "./appInsightsSettings";
+import { createBootstrapperScript, getScriptHash } from "./appInsightsBootstrapper";
+
+/**
+ * Publishes App Insights bootstrapper script once per publish run: uploads it to output storage when
+ * "scriptPermalink" is specified, and reports its hash to allow in Content Security Policy of the website.
+ */
+export class AppInsightsScriptPublisher implements IPublisher {
+    constructor(
+        private readonly siteService: ISiteService,
+        private readonly outputBlobStorage: IBlobStorage,
+        private readonly logger: Logger
+    ) { }
+
+    public async publish(): Promise<void> {
+        const settings = await this.siteService.getSettings<any>();
+        const appInsightsSettings: AppInsightsSettings = settings?.integration?.appInsights;
+
+        if (!appInsightsSettings?.connectionString && !appInsightsSettings?.instrumentationKey) {
+            return;
+        }
+
+        const script = createBootstrapperScript(appInsightsSettings);
+        const scriptHash = await getScriptHash(script);
+
+        if (appInsightsSettings.scriptPermalink) {
+            const content = new TextEncoder().encode(script);
+            await this.outputBlobStorage.uploadBlob(appInsightsSettings.scriptPermalink, content, "application/javascript");
+        }
+
+        this.logger.trackEvent("AppInsightsScriptPublisher", {
+            message: `App Insights bootstrapper script published. Allow it in Content Security Policy with "script-src '${scriptHash}'".`,
+            scriptHash: scriptHash
+        });
+    }
+}
\ No newline at end of file
@@ -8,11 +8,55 @@
 
 
 /**
- * Settings required to bootstrap Newrelic client.
+ * Settings required to bootstrap App Insights client, read from "integration.appInsights" site settings.
  */
 export interface AppInsightsSettings {
     /**
-     * App Insights Instrumentation key, e.g. "XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX".
+     * Connection string of App Insights resource, e.g. "InstrumentationKey=...;IngestionEndpoint=https://...".
      */
-    instrumentationKey: string;
+    connectionString?: string;
+
+    /**
+     * App Insights Instrumentation key, e.g. "XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX". Deprecated in favor of connection string.
+     */
+    instrumentationKey?: string;
+
+    /**
+     * URL of App Insights SDK script, e.g. self-hosted "/scripts/ai.2.min.js". Defaults to Microsoft CDN.
+     */
+    sdkUrl?: string;
+
+    /**
+     * Value of "crossorigin" attribute of SDK script element, e.g. "anonymous".
+     */
+    crossOrigin?: string;
+
+    /**
+     * Delay in milliseconds before SDK script gets loaded. Negative value loads it immediately from page head. Defaults to 0.
+     */
+    loadDelayInMs?: number;
+
+    /**
+     * Indicates that unhandled exceptions shouldn't be tracked.
+     */
+    disableExceptionTracking?: boolean;
+
+    /**
+     * Percentage of telemetry items sent to App Insights, from 0 to 100. Defaults to 100.
+     */
+    samplingPercentage?: number;
+
+    /**
+     * Permalink of file where bootstrapper script gets published, e.g. "/scripts/app-insights.js".
+     * The file is uploaded once per publish run and referenced with "integrity" hash. If not specified,
+     * the script is inlined into pages. Either way, `AppInsightsScriptPublisher` reports the hash of
+     * the script to allow in "script-src" directive of Content Security Policy, e.g. "script-src 'sha256-...'".
+     */
+    scriptPermalink?: string;
+
+    /**
+     * Nonce of bootstrapper script element, for websites served with Content Security Policy carrying the same
+     * nonce. Note that the nonce gets baked into published pages, so the hash of the script is preferable.
+     */
+    scriptNonce?: string;
 }
\ No newline at end of file
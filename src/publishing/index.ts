@@ -1,2 +1,6 @@
 export * from "./appInsightsPagePublisherPlugin";
-export * from "./appInsightsSettings";
\ No newline at end of file
+export * from "./appInsightsScriptPublisher";
+export * from "./appInsightsSettings";
+export * from "./publishRequest";
+export * from "./queuedPublishRequest";
+export * from "./scopedPublisher";
\ No newline at end of file
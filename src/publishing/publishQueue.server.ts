@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { Logger } from "@paperbits/common/logging";
+import { QueueClient, QueueServiceClient } from "@azure/storage-queue";
+import { PublishRequest } from "./publishRequest";
+import { QueuedPublishRequest } from "./queuedPublishRequest";
+
+/**
+ * Name of the queue used when "publishQueueName" setting isn't specified.
+ */
+const defaultQueueName = "publish-requests";
+
+/**
+ * Suffix of the queue receiving messages that failed to process, same as the one used by Azure Functions.
+ */
+const poisonQueueSuffix = "-poison";
+
+/**
+ * Azure Storage Queue of publish requests. Messages are Base64-encoded JSON, which is the default
+ * message encoding of Azure Functions queue triggers.
+ */
+export class PublishQueue {
+    private initializePromise: Promise<void>;
+    private queueClient: QueueClient;
+    private poisonQueueClient: QueueClient;
+
+    constructor(
+        private readonly settingsProvider: ISettingsProvider,
+        private readonly logger: Logger
+    ) {
+        this.initializePromise = null;
+    }
+
+    private async initialize(): Promise<void> {
+        if (!this.initializePromise) {
+            this.initializePromise = this.initQueue();
+        }
+
+        return this.initializePromise;
+    }
+
+    private async initQueue(): Promise<void> {
+        const connectionString = await this.settingsProvider.getSetting<string>("publishQueueConnectionString")
+            || await this.settingsProvider.getSetting<string>("blobStorageConnectionString");
+
+        if (connectionString) {
+            const queueName = await this.settingsProvider.getSetting<string>("publishQueueName") || defaultQueueName;
+            const queueServiceClient = QueueServiceClient.fromConnectionString(connectionString);
+
+            this.queueClient = queueServiceClient.getQueueClient(queueName);
+            this.poisonQueueClient = queueServiceClient.getQueueClient(`${queueName}${poisonQueueSuffix}`);
+            return;
+        }
+
+        const queueUrl = await this.settingsProvider.getSetting<string>("publishQueueUrl");
+
+        if (queueUrl) {
+            const poisonQueueUrl = await this.settingsProvider.getSetting<string>("publishPoisonQueueUrl");
+
+            if (!poisonQueueUrl) {
+                throw new Error(`Setting "publishPoisonQueueUrl" required to initialize PublishQueue with "publishQueueUrl".`);
+            }
+
+            this.queueClient = new QueueClient(queueUrl);
+            this.poisonQueueClient = new QueueClient(poisonQueueUrl);
+            return;
+        }
+
+        throw new Error(`Setting "publishQueueConnectionString", "blobStorageConnectionString" or "publishQueueUrl" required to initialize PublishQueue.`);
+    }
+
+    /**
+     * Creates the queue and the poison queue if they don't exist yet.
+     */
+    public async createQueues(): Promise<void> {
+        await this.initialize();
+        await this.queueClient.createIfNotExists();
+        await this.poisonQueueClient.createIfNotExists();
+    }
+
+    /**
+     * Adds publish request to the queue.
+     * @param request {PublishRequest} Publish request. Timestamp defaults to current time.
+     * @returns Identifier of the queue message.
+     */
+    public async enqueue(request: Omit<PublishRequest, "timestamp"> & Partial<PublishRequest>): Promise<string> {
+        await this.initialize();
+
+        const queuedRequest: PublishRequest = {
+            site: request.site,
+            locale: request.locale,
+            requestedBy: request.requestedBy,
+            timestamp: request.timestamp || new Date().toISOString()
+        };
+
+        try {
+            const response = await this.queueClient.sendMessage(this.encode(JSON.stringify(queuedRequest)));
+            this.logger.trackEvent("PublishQueue", { message: `Publish request ${response.messageId} queued by ${queuedRequest.requestedBy}.` });
+
+            return response.messageId;
+        }
+        catch (error) {
+            throw new Error(`Unable to queue publish request. ${error.stack || error.message}`);
+        }
+    }
+
+    /**
+     * Receives next publish request and hides it from other consumers for specified time.
+     * @param visibilityTimeoutInSeconds {number} Time before the request becomes visible again, unless deleted.
+     * @returns Received request, or `null` if the queue is empty.
+     */
+    public async receive(visibilityTimeoutInSeconds: number): Promise<QueuedPublishRequest> {
+        await this.initialize();
+
+        const response = await this.queueClient.receiveMessages({ numberOfMessages: 1, visibilityTimeout: visibilityTimeoutInSeconds });
+        const [message] = response.receivedMessageItems;
+
+        if (!message) {
+            return null;
+        }
+
+        return {
+            messageId: message.messageId,
+            popReceipt: message.popReceipt,
+            dequeueCount: message.dequeueCount,
+            messageText: message.messageText,
+            request: this.parseRequest(message.messageId, message.messageText)
+        };
+    }
+
+    /**
+     * Extends the time the request stays hidden from other consumers. Updates pop receipt of the request.
+     * @param queuedRequest {QueuedPublishRequest} Received request.
+     * @param visibilityTimeoutInSeconds {number} Time before the request becomes visible again, unless deleted.
+     */
+    public async extendVisibility(queuedRequest: QueuedPublishRequest, visibilityTimeoutInSeconds: number): Promise<void> {
+        await this.initialize();
+
+        const response = await this.queueClient.updateMessage(queuedRequest.messageId, queuedRequest.popReceipt, undefined, visibilityTimeoutInSeconds);
+        queuedRequest.popReceipt = response.popReceipt;
+    }
+
+    /**
+     * Deletes processed request from the queue.
+     * @param queuedRequest {QueuedPublishRequest} Received request.
+     */
+    public async complete(queuedRequest: QueuedPublishRequest): Promise<void> {
+        await this.initialize();
+        await this.queueClient.deleteMessage(queuedRequest.messageId, queuedRequest.popReceipt);
+    }
+
+    /**
+     * Moves the request that failed to process to the poison queue.
+     * @param queuedRequest {QueuedPublishRequest} Received request.
+     * @param reason {string} Reason of the failure.
+     */
+    public async moveToPoisonQueue(queuedRequest: QueuedPublishRequest, reason: string): Promise<void> {
+        await this.initialize();
+        await this.poisonQueueClient.sendMessage(queuedRequest.messageText);
+        await this.queueClient.deleteMessage(queuedRequest.messageId, queuedRequest.popReceipt);
+
+        this.logger.trackEvent("PublishQueue", { message: `Publish request ${queuedRequest.messageId} moved to poison queue after ${queuedRequest.dequeueCount} attempt(s). ${reason}` });
+    }
+
+    /**
+     * Returns requests from the poison queue without dequeuing them, e.g. for inspection.
+     * @param count {number} Maximum number of requests (up to 32).
+     * @returns Requests, where malformed ones are `null`.
+     */
+    public async peekPoisonQueue(count: number = 32): Promise<PublishRequest[]> {
+        await this.initialize();
+
+        const response = await this.poisonQueueClient.peekMessages({ numberOfMessages: count });
+        return response.peekedMessageItems.map(message => this.parseRequest(message.messageId, message.messageText));
+    }
+
+    private parseRequest(messageId: string, messageText: string): PublishRequest {
+        try {
+            return JSON.parse(this.decode(messageText));
+        }
+        catch (error) {
+            this.logger.trackEvent("PublishQueue", { message: `Publish request ${messageId} is malformed. ${error.message}` });
+            return null;
+        }
+    }
+
+    private encode(text: string): string {
+        return Buffer.from(text, "utf8").toString("base64");
+    }
+
+    private decode(text: string): string {
+        return Buffer.from(text, "base64").toString("utf8");
+    }
+}
\ No newline at end of file
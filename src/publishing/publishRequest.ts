@@ -0,0 +1,33 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+/**
+ * Request to publish the website, queued for processing by publish worker.
+ */
+export interface PublishRequest {
+    /**
+     * Identifier of the website to publish, e.g. "contoso".
+     */
+    site?: string;
+
+    /**
+     * Locale to publish, e.g. "en-us". All locales get published when not specified.
+     */
+    locale?: string;
+
+    /**
+     * Identity of the user or process that requested publishing, e.g. "jane@contoso.com".
+     */
+    requestedBy: string;
+
+    /**
+     * Time of the request in ISO 8601 format, e.g. "2024-01-31T10:00:00.000Z".
+     */
+    timestamp: string;
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+import { ISettingsProvider } from "@paperbits/common/configuration";
+import { Logger } from "@paperbits/common/logging";
+import { IPublisher } from "@paperbits/common/publishing";
+import { PublishQueue } from "./publishQueue.server";
+import { QueuedPublishRequest } from "./queuedPublishRequest";
+import { ScopedPublisher } from "./scopedPublisher";
+
+/**
+ * Time a received request stays hidden from other workers, unless "publishQueueVisibilityTimeout" setting is specified.
+ */
+const defaultVisibilityTimeoutInSeconds = 300;
+
+/**
+ * Number of attempts to process a request before it gets moved to the poison queue, unless "publishQueueMaxAttempts" setting is specified.
+ */
+const defaultMaxAttempts = 5;
+
+/**
+ * Delay before checking the queue again when it's empty, unless "publishQueuePollingInterval" setting is specified.
+ */
+const defaultPollingIntervalInMs = 10000;
+
+/**
+ * Worker running registered publisher for each request received from the publish queue. Requests for particular
+ * site or locale require the publisher to implement `ScopedPublisher`, otherwise they get moved to the poison queue.
+ */
+export class PublishWorker {
+    private running: boolean;
+    private loopPromise: Promise<void>;
+    private wakeUp: () => void;
+
+    constructor(
+        private readonly settingsProvider: ISettingsProvider,
+        private readonly sitePublisher: IPublisher,
+        private readonly publishQueue: PublishQueue,
+        private readonly logger: Logger
+    ) {
+        this.running = false;
+        this.loopPromise = null;
+        this.wakeUp = null;
+    }
+
+    /**
+     * Starts processing requests in the background, until the worker gets stopped.
+     */
+    public start(): void {
+        if (this.loopPromise) {
+            return;
+        }
+
+        this.running = true;
+        this.loopPromise = this.runLoop();
+    }
+
+    /**
+     * Stops the worker, waiting for the request being processed (if any) to complete.
+     */
+    public async stop(): Promise<void> {
+        this.running = false;
+
+        if (this.wakeUp) {
+            this.wakeUp();
+        }
+
+        await this.loopPromise;
+        this.loopPromise = null;
+    }
+
+    /**
+     * Receives and processes next publish request. Failed request becomes visible again after visibility
+     * timeout, or gets moved to the poison queue after maximum number of attempts.
+     * @returns `true` if a request was received, `false` if the queue is empty.
+     */
+    public async processNextRequest(): Promise<boolean> {
+        const visibilityTimeoutInSeconds = await this.settingsProvider.getSetting<number>("publishQueueVisibilityTimeout") || defaultVisibilityTimeoutInSeconds;
+        const maxAttempts = await this.settingsProvider.getSetting<number>("publishQueueMaxAttempts") || defaultMaxAttempts;
+        const queuedRequest = await this.publishQueue.receive(visibilityTimeoutInSeconds);
+
+        if (!queuedRequest) {
+            return false;
+        }
+
+        if (!queuedRequest.request) {
+            await this.publishQueue.moveToPoisonQueue(queuedRequest, "Request is malformed.");
+            return true;
+        }
+
+        if (queuedRequest.dequeueCount > maxAttempts) {
+            await this.publishQueue.moveToPoisonQueue(queuedRequest, `Maximum number of attempts (${maxAttempts}) exceeded.`);
+            return true;
+        }
+
+        const request = queuedRequest.request;
+        const scopedPublisher = this.getScopedPublisher();
+
+        if ((request.site || request.locale) && !scopedPublisher) {
+            await this.publishQueue.moveToPoisonQueue(queuedRequest, "Registered publisher can't publish particular site or locale.");
+            return true;
+        }
+
+        const description = `Publish request ${queuedRequest.messageId} (site: ${request.site || "default"}, locale: ${request.locale || "all"}, requested by ${request.requestedBy} on ${request.timestamp})`;
+        const startedOn = Date.now();
+
+        this.logger.trackEvent("PublishWorker", { message: `${description} started, attempt ${queuedRequest.dequeueCount} of ${maxAttempts}.` });
+
+        let publishError: Error = null;
+        const renewal = this.keepInvisible(queuedRequest, visibilityTimeoutInSeconds);
+
+        try {
+            if (scopedPublisher) {
+                await scopedPublisher.publishScoped(request);
+            }
+            else {
+                await this.sitePublisher.publish();
+            }
+        }
+        catch (error) {
+            publishError = error;
+        }
+
+        await renewal.stop();
+
+        if (!publishError) {
+            await this.publishQueue.complete(queuedRequest);
+            this.logger.trackEvent("PublishWorker", { message: `${description} completed in ${Date.now() - startedOn}ms.` });
+            return true;
+        }
+
+        this.logger.trackError(publishError, { message: `${description} failed.` });
+
+        if (queuedRequest.dequeueCount >= maxAttempts) {
+            await this.publishQueue.moveToPoisonQueue(queuedRequest, publishError.message);
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns registered publisher if it can publish particular site and locale, otherwise null.
+     */
+    private getScopedPublisher(): ScopedPublisher {
+        const scopedPublisher = <ScopedPublisher>this.sitePublisher;
+        return typeof scopedPublisher.publishScoped === "function" ? scopedPublisher : null;
+    }
+
+    /**
+     * Periodically extends visibility timeout of the request, so that long publishing doesn't make it
+     * visible to other workers.
+     * @returns Handle stopping the renewal, which resolves once pending update of the request completes.
+     */
+    private keepInvisible(queuedRequest: QueuedPublishRequest, visibilityTimeoutInSeconds: number): { stop: () => Promise<void> } {
+        let pendingUpdate = Promise.resolve();
+
+        const renewalTimer = setInterval(() => {
+            pendingUpdate = pendingUpdate
+                .then(() => this.publishQueue.extendVisibility(queuedRequest, visibilityTimeoutInSeconds))
+                .catch(error => this.logger.trackEvent("PublishWorker", { message: `Unable to extend visibility of publish request ${queuedRequest.messageId}. ${error.message}` }));
+        }, visibilityTimeoutInSeconds * 1000 / 2);
+
+        return {
+            stop: async () => {
+                clearInterval(renewalTimer);
+                await pendingUpdate;
+            }
+        };
+    }
+
+    private async runLoop(): Promise<void> {
+        const pollingIntervalInMs = await this.settingsProvider.getSetting<number>("publishQueuePollingInterval") || defaultPollingIntervalInMs;
+
+        while (this.running) {
+            let received = false;
+
+            try {
+                received = await this.processNextRequest();
+            }
+            catch (error) {
+                this.logger.trackError(error, { message: "Unable to process publish request." });
+            }
+
+            if (!received && this.running) {
+                await new Promise<void>(resolve => {
+                    const timeout = setTimeout(resolve, pollingIntervalInMs);
+
+                    this.wakeUp = () => {
+                        clearTimeout(timeout);
+                        resolve();
+                    };
+                });
+
+                this.wakeUp = null;
+            }
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+import { PublishRequest } from "./publishRequest";
+
+/**
+ * Publish request received from the queue.
+ */
+export interface QueuedPublishRequest {
+    /**
+     * Identifier of the queue message.
+     */
+    messageId: string;
+
+    /**
+     * Receipt of the last dequeue or visibility update, required to update or delete the message.
+     */
+    popReceipt: string;
+
+    /**
+     * Number of times the message has been received, including current one.
+     */
+    dequeueCount: number;
+
+    /**
+     * Original text of the queue message.
+     */
+    messageText: string;
+
+    /**
+     * Parsed request, or `null` if the message is malformed.
+     */
+    request: PublishRequest;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+import { IPublisher } from "@paperbits/common/publishing";
+import { PublishRequest } from "./publishRequest";
+
+/**
+ * Publisher able to publish particular website and locale. Publish worker requires it for requests specifying
+ * site or locale, as plain publisher always publishes default website in all locales.
+ */
+export interface ScopedPublisher extends IPublisher {
+    /**
+     * Publishes website and locale specified in the request.
+     * @param request {PublishRequest} Publish request, default website and all locales get published when not specified.
+     */
+    publishScoped(request: PublishRequest): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * Copyright Paperbits. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file and at https://paperbits.io/license/mit.
+ */
+
+
+import { IInjectorModule, IInjector } from "@paperbits/common/injection";
+import { PublishQueue } from "./publishing/publishQueue.server";
+import { PublishWorker } from "./publishing/publishWorker.server";
+
+
+/**
+ * Registers queue of publish requests ("publishQueue") and the worker processing them with registered
+ * "sitePublisher" ("publishWorker"). The worker starts processing once resolved and started by the host.
+ */
+export class QueuePublishModule implements IInjectorModule {
+    public register(injector: IInjector): void {
+        injector.bindSingleton("publishQueue", PublishQueue);
+        injector.bindSingleton("publishWorker", PublishWorker);
+    }
+}
\ No newline at end of file